@@ -31,6 +31,30 @@ async function build() {
     process.exit(1);
   }
 
+  // Argon2 worker (ESM only; loaded with `new Worker(url, { type: "module" })`)
+  let worker = await Bun.build({
+    entrypoints: ["src/kdf.worker.ts"],
+    outdir: "dist/esm",
+    target: "browser",
+    format: "esm",
+    minify: {
+      whitespace: true,
+      identifiers: false,
+      syntax: true,
+      keepNames: true,
+    },
+    sourcemap: "external",
+    naming: {
+    entry: "sls.kdf.worker.[ext]",
+    chunk: "[name]-[hash].[ext]",
+    asset: "[name].[ext]",
+  },
+  });
+  if (!worker.success) {
+    console.error("Worker build failed", worker.logs);
+    process.exit(1);
+  }
+
   // CJS (will emit dist/cjs/index.js -> rename to .cjs)
   let cjs = await Bun.build({
     entrypoints: ["src/index.ts"],
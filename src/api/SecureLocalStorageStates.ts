@@ -16,42 +16,95 @@
  * - Error taxonomy:
  *   - {@link ValidationError} — bad inputs, wrong API usage, wrong mode (e.g., empty password, missing key usage).
  *   - {@link LockedError} — operation requires an unlocked session.
- *   - {@link StorageFullError} — localStorage quota exceeded on persist.
+ *   - {@link StorageFullError} — storage quota exceeded on persist (any {@link StorageAdapter}).
  *   - {@link PersistenceError} — integrity/write failures outside quota conditions.
  *   - {@link ImportError} / {@link ExportError} — invalid import/export bundles or missing passwords.
  *   - {@link CryptoError} — cryptographic failure (invalid key or corrupted ciphertext).
+ *   - {@link CorruptConfigError} / {@link DeviceKeyMismatchError} — unreadable store at startup (only with `strict`).
+ *   - {@link RollbackDetectedError} — the persisted envelope is older than the last one written on this device
+ *     (startup, only with `strict`), or its data does not authenticate its revision (startup or unlock).
+ *   - {@link KeyCommitmentError} — a password does not match the key commitment of a store or bundle.
+ *   - {@link InvalidPasswordError} / {@link CorruptDataError} — wrong password, or the right password with a damaged
+ *     wrapped key or ciphertext (told apart by the key check value in the header). Both are {@link ValidationError}s;
+ *     `importData` throws the {@link ImportError} subclasses {@link InvalidImportPasswordError} / {@link CorruptImportDataError}.
  *
  * - Concurrency: Instances are independent. When in device mode, {@link rotateKeys} rotates only this instance’s
  *   device KEK namespace (see {@link SecureLocalStorageOptions.idbConfig}).
  */
 
 import { EncryptionManager } from "../crypto/EncryptionManager";
-import { DeviceKeyProvider } from "../crypto/DeviceKeyProvider";
-import { deriveKekFromPassword } from "../crypto/KeyDerivation";
+import { IndexedDbKekProvider, type KekProvider } from "../crypto/KekProvider";
+import {
+  deriveKekFromPrf,
+  NavigatorPrfAuthenticator,
+  type PasskeyRegistration,
+  type PrfAuthenticator
+} from "../crypto/WebAuthnPrf";
+import { deriveKekFromPassword, isWeakerKdf, kdfFromOptions, kdfProblem } from "../crypto/KeyDerivation";
+import { deriveKekFromRecoveryCode, generateRecoveryCode, parseRecoveryCode } from "../crypto/RecoveryKey";
 import { SessionKeyCache } from "../crypto/SessionKeyCache";
+import { KdfWorker } from "../crypto/KdfWorker";
+import { keyCheckValue, keyCommitment, verifyKeyCheckValue, verifyKeyCommitment } from "../crypto/KeyCommitment";
 import { SLS_CONSTANTS } from "../constants";
-import { StorageService } from "../storage/StorageService";
-import type { PersistedConfig, PersistedConfigV2, PersistedConfigV3 } from "../types";
-import { base64ToBytes } from "../utils/base64";
+import { type ConfigStore, type JournalRecovery, StorageService } from "../storage/StorageService";
+import { LocalStorageAdapter, type StorageAdapter } from "../storage/StorageAdapter";
+import { QuarantineStore } from "../storage/QuarantineStore";
+import { type IdbDataConfig, IndexedDbDataStore } from "../storage/IndexedDbDataStore";
+import type {
+  HeaderV3,
+  HeaderV4,
+  HeaderV5,
+  KdfDescriptor,
+  KdfOptions,
+  KeySlot,
+  KeySlotInfo,
+  PersistedConfig,
+  PersistedConfigV2,
+  PersistedConfigV3,
+  PersistedConfigV4,
+  PersistedConfigV5,
+  QuarantineInfo,
+  ResetReason,
+  RotateKeysOptions,
+  SlsEventMap,
+  SlsStatus,
+  UnlockOptions
+} from "../types";
+import { EventEmitter } from "../utils/events";
+import { randomId } from "../utils/randomId";
+import { base64ToBytes, bytesToBase64 } from "../utils/base64";
 import {  SecureDataView } from "../utils/secureDataView";
 import { LockedState } from "./states/LockedState";
 import { DeviceModeState } from "./states/DeviceModeState";
+import { MasterPasswordState } from "./states/MasterPasswordState";
 import type { IdbConfig } from "../crypto/DeviceKeyProvider";
 import {
+  CryptoError,
+  CorruptDataError,
+  CorruptImportDataError,
   ImportError,
+  InvalidImportPasswordError,
+  InvalidPasswordError,
+  KeyCommitmentError,
   LockedError,
+  ModeError,
+  NotSupportedError,
+  PersistenceError,
+  RollbackDetectedError,
+  ValidationError,
 } from "../errors";
 import { VersionManager } from "./sls/VersionManager";
 import { State } from "./states/BaseState";
 import { InitialState } from "./states/InitialState";
 import { Portability } from "./sls/Portability";
+import { KeySlots, type KeySlotSpec } from "./sls/KeySlots";
 
 /**
  * Configuration for {@link SecureLocalStorage}.
  */
 export interface SecureLocalStorageOptions {
   /**
-   * The localStorage key used to persist the encrypted bundle.
+   * The storage key used to persist the encrypted bundle.
    *
    * @defaultValue `"secure-local-storage:v2"` (see {@link SLS_CONSTANTS.STORAGE_KEY})
    *
@@ -70,6 +123,179 @@ export interface SecureLocalStorageOptions {
    * - Shape matches {@link IdbConfig}: `{ dbName, storeName, keyId }`.
    */
   idbConfig?: Partial<IdbConfig>;
+
+  /**
+   * Source of the device KEK used in password-less mode and by device key slots.
+   *
+   * @defaultValue an {@link IndexedDbKekProvider} for {@link SecureLocalStorageOptions.idbConfig}
+   *
+   * @remarks
+   * - Supply a {@link KekProvider} to take the KEK from a native bridge, a key service, or a test double.
+   *   `idbConfig` is ignored by the library's own KEK handling when a provider is given.
+   * - {@link SecureLocalStorage.rotateKeys} requires the provider's optional staging methods.
+   */
+  kekProvider?: KekProvider;
+
+  /**
+   * WebAuthn boundary used by {@link SecureLocalStorage.enrollPasskey} and {@link SecureLocalStorage.unlockWithPasskey}.
+   *
+   * @defaultValue a {@link NavigatorPrfAuthenticator} (uses `navigator.credentials` on first use)
+   *
+   * @remarks
+   * Inject a {@link PrfAuthenticator} stub for tests or hosts that bridge WebAuthn differently.
+   */
+  webauthn?: PrfAuthenticator;
+
+  /**
+   * Backend used to persist the encrypted bundle.
+   *
+   * @defaultValue a {@link LocalStorageAdapter}
+   *
+   * @remarks
+   * - Built-ins: {@link LocalStorageAdapter}, {@link SessionStorageAdapter}, {@link MemoryStorageAdapter}.
+   * - Any object implementing {@link StorageAdapter} (`getItem`/`setItem`/`removeItem`) is accepted.
+   * - Quota detection and the post-write integrity check apply to every adapter.
+   */
+  storage?: StorageAdapter;
+
+  /**
+   * Split the serialized bundle across several storage entries of at most `chunkSize` characters.
+   *
+   * @defaultValue `undefined` (single entry)
+   *
+   * @remarks
+   * - For browsers/backends that cap the size of a single value. Chunks are written to `storageKey#0..n`
+   *   and a manifest (chunk count, length, SHA-256) is written to `storageKey`.
+   * - Reads reassemble and verify the chunks; stale chunks are removed when the payload shrinks.
+   * - Chunked bundles are always readable, even if this option is later removed.
+   */
+  chunkSize?: number;
+
+  /**
+   * Crash-safe two-phase writes for the storage adapter.
+   *
+   * @defaultValue `true`
+   *
+   * @remarks
+   * - Each persist stages the bundle under `storageKey#journal`, verifies it, swaps it into `storageKey`
+   *   and then removes the journal. Initialization completes a valid leftover journal or discards an
+   *   incomplete one before reading the store.
+   * - Needs room for a second copy of the bundle while a write is in flight. Disable only if the backend
+   *   already writes atomically and quota is tight. Not used with `dataStore: "indexedDB"` (transactions
+   *   are atomic there).
+   */
+  journal?: boolean;
+
+  /**
+   * Move unreadable envelopes aside instead of overwriting them.
+   *
+   * @defaultValue `false`
+   *
+   * @remarks
+   * - When initialization finds an invalid config or a device KEK that cannot unwrap the DEK, the envelope is
+   *   copied to `storageKey#quarantine` in the same backend as the envelope (the storage adapter, or the
+   *   IndexedDB object store with `dataStore: "indexedDB"`) before a fresh store is created. If that copy
+   *   cannot be written, initialization fails instead of destroying the data.
+   * - Use {@link SecureLocalStorage.listQuarantined}, {@link SecureLocalStorage.exportQuarantined},
+   *   {@link SecureLocalStorage.retryQuarantined} and {@link SecureLocalStorage.discardQuarantined} to manage entries.
+   */
+  quarantine?: boolean;
+
+  /**
+   * Fail initialization instead of replacing an unreadable store with an empty one.
+   *
+   * @defaultValue `false`
+   *
+   * @remarks
+   * - An invalid config rejects with {@link CorruptConfigError}; a device KEK that cannot unwrap the DEK rejects
+   *   with {@link DeviceKeyMismatchError}; an envelope older than the last revision written on this device rejects
+   *   with {@link RollbackDetectedError}. Every async method then rejects with the same error.
+   * - The persisted envelope is left untouched (and is not quarantined). Call {@link SecureLocalStorage.clear}
+   *   to discard it and start a fresh store.
+   */
+  strict?: boolean;
+
+  /**
+   * Accept v2 envelopes, which have no AAD binding, at startup and in {@link SecureLocalStorage.importData}.
+   *
+   * @defaultValue `true`
+   *
+   * @remarks
+   * - With `false` a v2 envelope is treated as an invalid config (reset, quarantine or {@link CorruptConfigError}
+   *   as configured) and a v2 export is rejected with {@link ImportError}, so old v2 data cannot be migrated.
+   * - Independently, once a store has been written in the current format, older envelope versions are refused for
+   *   that store (the version is recorded next to the device KEK by providers that support it, see
+   *   {@link KekProvider}) and v2 exports are no longer imported. v3 and later exports always import.
+   */
+  acceptV2?: boolean;
+
+  /**
+   * Add a key-commitment tag (`header.kc`) to new password wraps and exports.
+   *
+   * @defaultValue `false`
+   *
+   * @remarks
+   * - AES-GCM is not key-committing: a crafted bundle can decrypt under several passwords, which turns repeated
+   *   import or unlock attempts into a partitioning oracle. The tag is an HMAC, keyed from the password KEK,
+   *   over the header's wrap AAD, and is checked **before** any unwrap.
+   * - Tags are verified whenever present, regardless of this option. A mismatch (wrong password or a header
+   *   crafted for another key) rejects with {@link KeyCommitmentError}.
+   * - Key slots are not committed.
+   */
+  keyCommitment?: boolean;
+
+  /**
+   * KDF and cost for password KEKs created by this instance.
+   *
+   * @defaultValue {@link SLS_CONSTANTS.ARGON2} (`alg` "argon2id", `time` 20, `memKiB` 65536, `parallelism` 1)
+   *
+   * @remarks
+   * - Applies to {@link SecureLocalStorage.setMasterPassword}, {@link SecureLocalStorage.rotateMasterPassword},
+   *   password-protected {@link SecureLocalStorage.exportData}, password key slots and recovery resets.
+   *   Both password methods also take a per-call override (e.g. the result of {@link calibrateKdf}).
+   * - Existing wraps keep the parameters recorded in their header; unlock always uses those.
+   * - `alg: "pbkdf2-sha256"` selects the WebCrypto fallback for environments where the Argon2 WASM cannot load
+   *   (e.g. a CSP without `'wasm-unsafe-eval'`); `time` is then the PBKDF2 iteration count (default 600000).
+   * - Rejected with {@link ValidationError} below `time` 2 or `memKiB` 8192 (PBKDF2: 100000 iterations),
+   *   or above the header limits.
+   */
+  kdf?: KdfOptions;
+
+  /**
+   * Creates the worker that runs Argon2 off the main thread.
+   *
+   * @defaultValue none — Argon2 runs on the calling thread (the main thread in a page); the bundled worker is
+   *   never started on its own
+   *
+   * @remarks
+   * - Without it an abort of {@link SecureLocalStorage.unlock} only takes effect between steps: a derivation that
+   *   already runs blocks the thread until it finishes, then the unlock rejects.
+   * - Point it at the worker bundle shipped with the package, e.g.
+   *   `() => new Worker(new URL("@mqxym/secure-local-storage/kdf-worker", import.meta.url), { type: "module" })`.
+   * - The worker returns the raw Argon2 output; the KEK is imported on the calling thread as a non-extractable key.
+   * - Started on first use and reused. Aborting an {@link SecureLocalStorage.unlock} terminates it mid-derivation.
+   * - PBKDF2 already runs asynchronously in WebCrypto and does not use the worker.
+   */
+  kdfWorker?: () => Worker;
+
+  /**
+   * Where the encrypted envelope lives.
+   *
+   * @defaultValue `"storage"`
+   *
+   * @remarks
+   * - `"storage"` — a single JSON string in the {@link SecureLocalStorageOptions.storage} adapter.
+   * - `"indexedDB"` — header plus raw ciphertext bytes (no base64) in IndexedDB, which is not bound by the
+   *   ~5 MiB Web Storage quota. An existing envelope under {@link SecureLocalStorageOptions.storageKey} in the
+   *   storage adapter is moved into IndexedDB the first time the store is opened.
+   */
+  dataStore?: "storage" | "indexedDB";
+
+  /**
+   * IndexedDB namespace for the envelope when {@link SecureLocalStorageOptions.dataStore} is `"indexedDB"`.
+   * When omitted, defaults to {@link SLS_CONSTANTS.IDB_DATA}. Records are keyed by the storage key.
+   */
+  idbDataConfig?: Partial<IdbDataConfig>;
 }
 
 /**
@@ -87,7 +313,8 @@ export interface SecureLocalStorageOptions {
  * - Encryption uses AES-GCM with 96-bit nonces and AAD binding header/data to the storage key.
  *
  * ### Persistence & integrity
- * - The encrypted bundle is written to `localStorage`. A post-write readback verifies integrity.
+ * - The encrypted bundle is written to `localStorage` by default, or to the configured
+ *   {@link SecureLocalStorageOptions.storage} adapter. A post-write readback verifies integrity.
  * - Quota errors bubble as {@link StorageFullError}.
  *
  * @example
@@ -121,8 +348,8 @@ export class SecureLocalStorage {
   /** @internal Backing state machine (Initial → DeviceMode|Locked → MasterPassword). */
   private state: State;
 
-  /** @internal Local storage service for the serialized bundle. */
-  public readonly store: StorageService;
+  /** @internal Persistence for the serialized bundle ({@link StorageService} or {@link IndexedDbDataStore}). */
+  public readonly store: ConfigStore;
 
   /** @internal Crypto primitives (AES-GCM, wrap/unwrap, salt). */
   public readonly enc = new EncryptionManager();
@@ -134,7 +361,7 @@ export class SecureLocalStorage {
   public readonly session = new SessionKeyCache();
 
   /**
-   * The currently loaded config header+data (v2/v3). `null` until initialization completes or a fresh store is created.
+   * The currently loaded config header+data (v2–v5). `null` until initialization completes or a fresh store is created.
    * @internal
    */
   public config: PersistedConfig | null = null;
@@ -148,10 +375,13 @@ export class SecureLocalStorage {
   /** @internal Resolves after InitialState.initialize(). All public async methods await this barrier. */
   private ready: Promise<void>;
 
+  /** @internal Rejection reason of the last initialization, or `null` while pending/successful. */
+  private initError: unknown = null;
+
   /**
    * Resolved IndexedDB namespace used for device KEK persistence.
    * @remarks
-   * Propagated to {@link DeviceKeyProvider} calls, including surgical deletes and rotations.
+   * Propagated to the default {@link IndexedDbKekProvider}, including surgical deletes and rotations.
    */
   public readonly idbConfig: { dbName: string; storeName: string; keyId: string };
 
@@ -168,24 +398,69 @@ export class SecureLocalStorage {
    * Last reason why a store was reset during initialization.
    * - `"invalid-config"` — persisted payload failed structural or base64 checks.
    * - `"device-kek-mismatch"` — unwrap with device KEK failed; store was reinitialized.
+   * - `"rollback-detected"` — the envelope was older than the last revision written on this device.
    *
    * @internal
    */
-  public lastResetReason: "invalid-config" | "device-kek-mismatch" | null = null;
+  public lastResetReason: ResetReason | null = null;
+
+  /** @internal Unreadable envelopes moved aside during initialization (see {@link SecureLocalStorageOptions.quarantine}). */
+  public readonly quarantine: QuarantineStore;
+
+  /** @internal Whether initialization quarantines unreadable envelopes before resetting. */
+  public readonly quarantineOnReset: boolean;
+
+  /** @internal Whether initialization throws instead of resetting an unreadable store. */
+  public readonly strict: boolean;
+
+  /** @internal Whether new password wraps and exports carry a key-commitment tag. */
+  public readonly keyCommitment: boolean;
+
+  /** @internal Highest envelope revision seen for this store (recorded by the KEK provider or persisted here). */
+  private revision = 0;
+
+  /** @internal Tail of the write queue; see {@link exclusive}. */
+  private writes: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Outcome of the write-ahead journal check performed during initialization
+   * (see {@link SecureLocalStorageOptions.journal}). `null` until initialization has run.
+   *
+   * @internal
+   */
+  public lastJournalRecovery: JournalRecovery | null = null;
 
   /** @internal Exposed for tests: current data version. */
   public readonly DATA_VERSION: number = SLS_CONSTANTS.MIGRATION_TARGET_VERSION;
 
-  /** @internal Indirection for tests/mocking. */
-  public readonly deviceKeyProvider = DeviceKeyProvider;
+  /** @internal Source of the device KEK ({@link SecureLocalStorageOptions.kekProvider}; IndexedDB by default). */
+  public readonly kekProvider: KekProvider;
+
+  /** @internal WebAuthn PRF boundary for passkey slots ({@link SecureLocalStorageOptions.webauthn}). */
+  public readonly passkeyAuthenticator: PrfAuthenticator;
+
+  /** @internal Argon2id parameters for new password wraps ({@link SecureLocalStorageOptions.kdf}). */
+  public readonly kdf: KdfDescriptor;
 
-  /** @internal Indirection for tests/mocking. */
-  public readonly deriveKekFromPassword = deriveKekFromPassword;
+  /** @internal Listeners registered via {@link on}. */
+  public readonly events = new EventEmitter<SlsEventMap>();
+
+  /** @internal Argon2 worker ({@link SecureLocalStorageOptions.kdfWorker}), or `null` to derive inline. */
+  public readonly kdfWorker: KdfWorker | null;
+
+  /** @internal Password KEK derivation through {@link kdfWorker}; an instance property for tests/mocking. */
+  public readonly deriveKekFromPassword = (
+    password: string,
+    salt: Uint8Array,
+    kdf: KdfDescriptor,
+    signal?: AbortSignal
+  ): Promise<CryptoKey> =>
+    deriveKekFromPassword(password, salt, kdf, { worker: this.kdfWorker ?? undefined, signal });
 
   /**
    * Create a new SecureLocalStorage instance.
    *
-   * @param opts - Optional configuration for storage key and KEK persistence namespace.
+   * @param opts - Optional configuration for storage key, storage backend and KEK persistence namespace.
    *
    * @remarks
    * Construction kicks off async initialization. Public async methods await the internal `ready` barrier to ensure
@@ -193,15 +468,90 @@ export class SecureLocalStorage {
    */
   constructor(opts?: SecureLocalStorageOptions) {
     this.storageKeyStr = opts?.storageKey ?? SLS_CONSTANTS.STORAGE_KEY;
-    this.store = new StorageService(this.storageKeyStr);
+    this.kdf = Object.freeze(kdfFromOptions(opts?.kdf));
+    const adapter = opts?.storage ?? new LocalStorageAdapter();
+    const storage = new StorageService(this.storageKeyStr, adapter, {
+      chunkSize: opts?.chunkSize,
+      journal: opts?.journal ?? true
+    });
+    // Quarantined envelopes live in the same backend as the envelope itself.
+    let sideStorage: StorageAdapter = adapter;
+    if (opts?.dataStore === "indexedDB") {
+      if (!globalThis.indexedDB) throw new NotSupportedError("IndexedDB is not available for dataStore \"indexedDB\"");
+      const idbStore = new IndexedDbDataStore(this.storageKeyStr, opts.idbDataConfig, storage);
+      this.store = idbStore;
+      sideStorage = idbStore.adapter();
+    } else {
+      this.store = storage;
+    }
+    this.quarantine = new QuarantineStore(`${this.storageKeyStr}#quarantine`, sideStorage);
+    this.quarantineOnReset = opts?.quarantine ?? false;
+    this.strict = opts?.strict ?? false;
+    this.keyCommitment = opts?.keyCommitment ?? false;
     this.idbConfig = {
       dbName: opts?.idbConfig?.dbName ?? SLS_CONSTANTS.IDB.DB_NAME,
       storeName: opts?.idbConfig?.storeName ?? SLS_CONSTANTS.IDB.STORE,
       keyId: opts?.idbConfig?.keyId ?? SLS_CONSTANTS.IDB.ID,
     };
+    this.kekProvider = opts?.kekProvider ?? new IndexedDbKekProvider(this.idbConfig);
+    this.passkeyAuthenticator = opts?.webauthn ?? new NavigatorPrfAuthenticator();
+    this.kdfWorker = opts?.kdfWorker ? new KdfWorker(opts.kdfWorker) : null;
     this.versionManager = new VersionManager(this.storageKeyStr, this.idbConfig, this.enc);
+    if (opts?.acceptV2 === false) this.versionManager.minVersion = 3;
     this.state = new InitialState(this);
-    this.ready = this.state.initialize();
+    this.ready = this.track(this.state.initialize());
+  }
+
+  /**
+   * Create an instance and wait until initialization has finished.
+   *
+   * @param opts - Same options as the constructor.
+   * @returns A ready instance ({@link getStatus} is `"device"` or `"locked"`).
+   * @throws Any initialization error, e.g. {@link CorruptConfigError} with `strict`, or {@link PersistenceError}.
+   *
+   * @example
+   * const sls = await SecureLocalStorage.create({ storageKey: "app:sls", strict: true });
+   * if (sls.isLocked()) await sls.unlock(password);
+   */
+  public static async create(opts?: SecureLocalStorageOptions): Promise<SecureLocalStorage> {
+    const sls = new SecureLocalStorage(opts);
+    await sls.whenReady();
+    return sls;
+  }
+
+  /**
+   * Resolve once initialization has finished.
+   *
+   * @throws The initialization error if startup failed (also thrown by every other async method).
+   */
+  public whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  /**
+   * Current lifecycle status. Never throws, also not while initializing.
+   *
+   * @returns One of `"initializing" | "device" | "locked" | "unlocked" | "failed"` (see {@link SlsStatus}).
+   */
+  public getStatus(): SlsStatus {
+    if (this.initError !== null) return "failed";
+    if (this.state instanceof InitialState) return "initializing";
+    if (!this.state.isUsingMasterPassword()) return "device";
+    return this.state.isLocked() ? "locked" : "unlocked";
+  }
+
+  /**
+   * Subscribe to an instance event.
+   *
+   * @param event - Event name (see {@link SlsEventMap}).
+   * @param listener - Called with the event payload; exceptions thrown by it are ignored.
+   * @returns A function that removes the listener.
+   *
+   * @example
+   * const off = sls.on("kdf-upgraded", ({ previous, kdf }) => console.info("KDF upgraded", previous, kdf));
+   */
+  public on<K extends keyof SlsEventMap>(event: K, listener: (payload: SlsEventMap[K]) => void): () => void {
+    return this.events.on(event, listener);
   }
 
   /** @internal State transition helper (do not call directly). */
@@ -239,31 +589,59 @@ export class SecureLocalStorage {
    * Unlock a master-password protected store for this session.
    *
    * @param masterPassword - The correct master password (non-empty string).
+   * @param opts.signal - Cancels the unlock; it then rejects with `signal.reason` and the store stays locked. A running
+   *   Argon2 derivation is only stopped with {@link SecureLocalStorageOptions.kdfWorker}.
+   * @param opts.onProgress - Receives 0 at the start and 1 when done; steps in between only per tried key slot.
    * @throws {@link ValidationError} If password is empty/whitespace.
-   * @throws {@link ValidationError} If the password is incorrect.
+   * @throws {@link InvalidPasswordError} If the password is incorrect.
+   * @throws {@link CorruptDataError} If the password is correct but the wrapped key is corrupted.
+   * @throws {@link KeyCommitmentError} If the password does not match the store's key commitment and opens no key slot.
+   * @throws {@link KdfUnavailableError} If the store's KDF cannot run here (see {@link SecureLocalStorageOptions.kdf}).
+   * @throws {@link RollbackDetectedError} If the data does not authenticate the envelope's revision (an older envelope
+   *   replayed with a raised `rev`); the store stays locked.
    *
    * @remarks
    * - No-op in device mode.
    * - On success, the derived KEK is cached in RAM only (not persisted) for the current session.
+   * - If the opened wrap records weaker Argon2 parameters than {@link SecureLocalStorageOptions.kdf}, it is re-derived
+   *   and re-wrapped in the background after this resolves; listen for `"kdf-upgraded"` via {@link on}.
    */
-  public async unlock(masterPassword: string): Promise<void> {
+  public async unlock(masterPassword: string, opts?: UnlockOptions): Promise<void> {
     await this.ready;
-    return this.state.unlock(masterPassword);
+    return this.state.unlock(masterPassword, opts);
+  }
+
+  /**
+   * Unlock a master-password protected store with an enrolled passkey (WebAuthn PRF).
+   *
+   * @throws {@link ValidationError} If no passkey is enrolled or the chosen passkey does not open the store.
+   * @throws {@link NotSupportedError} If WebAuthn or the PRF extension is unavailable.
+   * @throws {@link RollbackDetectedError} If the data does not authenticate the envelope's revision; the store stays locked.
+   *
+   * @remarks
+   * - No-op in device mode or when already unlocked.
+   * - The browser lets the user pick among all enrolled passkeys (see {@link enrollPasskey}).
+   * - Sessions opened with a passkey need a custom password for {@link exportData}.
+   */
+  public async unlockWithPasskey(): Promise<void> {
+    await this.ready;
+    return this.state.unlockWithPasskey();
   }
 
   /**
    * Switch from device mode to master-password mode.
    *
    * @param masterPassword - New master password; must be non-empty after trimming.
-   * @throws {@link ValidationError} If password is empty/whitespace.
+   * @param kdf - Argon2id parameters for this password (e.g. from {@link calibrateKdf}); defaults to {@link SecureLocalStorageOptions.kdf}.
+   * @throws {@link ValidationError} If password is empty/whitespace or `kdf` is out of range.
    * @throws {@link ModeError} If already using a master password.
    *
    * @remarks
-   * - Rewraps the DEK under a derived KEK (Argon2id), persists a v3 header, and keeps the session **unlocked**.
+   * - Rewraps the DEK under a derived KEK (Argon2id), persists a v5 header, and keeps the session **unlocked**.
    */
-  public async setMasterPassword(masterPassword: string): Promise<void> {
+  public async setMasterPassword(masterPassword: string, kdf?: KdfOptions): Promise<void> {
     await this.ready;
-    return this.state.setMasterPassword(masterPassword);
+    return this.state.setMasterPassword(masterPassword, kdf);
   }
 
   /**
@@ -285,14 +663,17 @@ export class SecureLocalStorage {
    *
    * @param oldMasterPassword - The current master password.
    * @param newMasterPassword - The new master password (non-empty after trimming).
-   * @throws {@link ValidationError} If the old password is wrong or the new password is empty.
+   * @param kdf - Argon2id parameters for the new password (e.g. from {@link calibrateKdf}); defaults to {@link SecureLocalStorageOptions.kdf}.
+   * @throws {@link ValidationError} If the new password is empty or `kdf` is out of range.
+   * @throws {@link InvalidPasswordError} If the old password is wrong (a {@link ValidationError}).
+   * @throws {@link CorruptDataError} If the old password is correct but the wrapped key is corrupted.
    *
    * @remarks
    * Verifies the old password against the stored header using AAD, then rewraps the DEK with a KEK derived from the new password.
    */
-  public async rotateMasterPassword(oldMasterPassword: string, newMasterPassword: string): Promise<void> {
+  public async rotateMasterPassword(oldMasterPassword: string, newMasterPassword: string, kdf?: KdfOptions): Promise<void> {
     await this.ready;
-    return this.state.rotateMasterPassword(oldMasterPassword, newMasterPassword);
+    return this.state.rotateMasterPassword(oldMasterPassword, newMasterPassword, kdf);
   }
 
   /**
@@ -307,18 +688,25 @@ export class SecureLocalStorage {
   }
 
   /**
-   * Rotate the **device KEK** (device mode only) while preserving data.
+   * Rotate the DEK (and in device mode the **device KEK**) while preserving data.
    *
-   * @throws {@link ModeError} If called in master-password mode.
+   * @param opts - Master-password mode only; see {@link RotateKeysOptions}.
+   * @throws {@link LockedError} If the store is locked.
+   * @throws {@link ValidationError} In master mode: wrong `masterPassword`, a key-slot session without `masterPassword`,
+   *   or password/recovery/passkey slots without `dropKeySlots`.
    * @throws {@link PersistenceError} / {@link StorageFullError} On persist failures.
    *
    * @remarks
-   * - Generates a new DEK and KEK, re-encrypts data, and persists a fresh header and ciphertext.
-   * - Useful for recovering from suspected device KEK compromise or to force a fresh transient KEK.
+   * - Generates a new DEK, re-encrypts data, and persists a fresh header and ciphertext; the old DEK opens nothing afterwards.
+   * - Device mode: the new KEK is staged next to the old one and only promoted after the envelope is persisted. If the
+   *   tab dies in between, the next initialization unwraps with the pending KEK and commits it instead of resetting the store.
+   * - Master mode: the new DEK is wrapped with the session KEK (or, with `masterPassword`, a KEK derived with a new salt).
+   *   Device slots are re-wrapped; other slots would need their secrets, so they must be dropped (and re-added).
+   * - Useful for recovering from a suspected DEK or device KEK compromise.
    */
-  public async rotateKeys(): Promise<void> {
+  public async rotateKeys(opts?: RotateKeysOptions): Promise<void> {
     await this.ready;
-    return this.state.rotateKeys();
+    return this.state.rotateKeys(opts);
   }
 
   /**
@@ -374,24 +762,33 @@ export class SecureLocalStorage {
   }
 
   /**
-   * Import a previously exported bundle (v2/v3). Returns a discriminator describing the protection used.
+   * Import a previously exported bundle (v2–v5). Returns a discriminator describing the protection used.
    *
    * @param serialized - The serialized bundle string.
    * @param password - The password required to unwrap the bundle:
    *   - For master-protected bundles: the **master password**.
    *   - For custom-export bundles: the **export password**.
    * @returns `"masterPassword"` when the imported bundle is protected by a master password; `"customExportPassword"` otherwise.
-   * @throws {@link ImportError} On invalid structure, invalid base64, missing password, or wrong password.
+   * @throws {@link ImportError} On invalid structure, invalid base64, missing password, or a failed unwrap of a
+   *   bundle without key check value (wrong password or corrupted data).
+   * @throws {@link InvalidImportPasswordError} If the password does not match the bundle's key check value.
+   * @throws {@link CorruptImportDataError} If the password matches but the wrapped key or ciphertext is corrupted.
+   *   Both extend {@link ImportError}.
+   * @throws {@link KeyCommitmentError} If the bundle carries a key-commitment tag the password does not match.
    *
    * @remarks
    * - Master-protected imports transition the instance to **locked master-password mode**.
    * - Custom-export imports transition the instance to **device mode** and re-wrap the DEK under the device KEK.
-   * - v2 bundles are migrated to v3 automatically with AAD binding.
+   * - v2–v4 bundles are re-wrapped into a v5 store (full header AAD binding, KDF descriptor) automatically.
    */
   public async importData(serialized: string, password?: string): Promise<string> {
     await this.ready;
  
-    const { bundle, isMasterProtected } = Portability.parseAndClassify(serialized, SLS_CONSTANTS.SUPPORTED_VERSIONS);   
+    const { bundle, isMasterProtected } = Portability.parseAndClassify(
+      serialized,
+      SLS_CONSTANTS.SUPPORTED_VERSIONS,
+      this.versionManager.minImportVersion()
+    );
 
     this.validateBundle(bundle);
 
@@ -402,92 +799,429 @@ export class SecureLocalStorage {
       );
     }
 
-    const ctx = this.versionManager.isV3(bundle) ? (bundle.header.ctx ?? "store") : undefined;
-    const wrapAad = this.versionManager.isV3(bundle) ? this.versionManager.buildWrapAad(ctx!, bundle.header.v) : undefined;
-    const dataAadBuilder = (iv: string, wk: string) =>
-      this.versionManager.isV3(bundle) ? this.versionManager.buildDataAad(ctx!, bundle.header.v, iv, wk) : undefined;
+    const wrapAad = this.versionManager.getAadFor("wrap", bundle);
+    const dataAad = this.versionManager.getAadFor("data", bundle);
+    const kdf = this.versionManager.kdfFor(bundle.header as HeaderV3 | HeaderV4 | HeaderV5);
 
     if (isMasterProtected) {
+      let openedDek: CryptoKey;
+      const kek = await this.deriveKekFromPassword(password, base64ToBytes(bundle.header.salt), kdf);
+      const check = await this.keyCheck(bundle.header as HeaderV5, kek);
+      if (check === false) throw new InvalidImportPasswordError("Invalid master password");
+      await this.assertKeyCommitment(bundle.header, kek, wrapAad);
       try {
-        const kek = await deriveKekFromPassword(password, base64ToBytes(bundle.header.salt), (bundle.header as any).rounds);
-        const dek = await this.enc.unwrapDek(bundle.header.iv, bundle.header.wrappedKey, kek, false, wrapAad);
+        openedDek = await this.enc.unwrapDek(bundle.header.iv, bundle.header.wrappedKey, kek, false, wrapAad);
         if (bundle.data.iv && bundle.data.ciphertext) {
-          const dataAad = dataAadBuilder(bundle.header.iv, bundle.header.wrappedKey);
-          await this.enc.decryptData<Record<string, unknown>>(dek, bundle.data.iv, bundle.data.ciphertext, dataAad);
+          await this.enc.decryptData<Record<string, unknown>>(openedDek, bundle.data.iv, bundle.data.ciphertext, dataAad);
         }
       } catch {
-        throw new ImportError("Invalid master password or corrupted export data");
+        throw check
+          ? new CorruptImportDataError("The master password is correct, but the export data is corrupted")
+          : new ImportError("Invalid master password or corrupted export data");
       }
-      if (!this.versionManager.isV3(bundle) || (this.versionManager.isV3(bundle) && bundle.header.ctx !== "store")) {
-        const kek = await deriveKekFromPassword(password, base64ToBytes(bundle.header.salt), (bundle.header as any).rounds);
+      if (!this.versionManager.isLatest(bundle) || (bundle.header as HeaderV5).ctx !== "store") {
         const dek = await this.enc.unwrapDek(bundle.header.iv, bundle.header.wrappedKey, kek, true, wrapAad);
-        const ctxStore: PersistedConfigV3["header"]["ctx"] = "store";
-        const wrapAadStore = this.versionManager.buildWrapAad(ctxStore, SLS_CONSTANTS.MIGRATION_TARGET_VERSION);
-        const wrapped = await this.enc.wrapDek(dek, kek, wrapAadStore);
-        const dataAadStore = this.versionManager.buildDataAad(ctxStore, SLS_CONSTANTS.MIGRATION_TARGET_VERSION, wrapped.ivWrap, wrapped.wrappedKey);
+        const fields = {
+          v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION,
+          salt: bundle.header.salt,
+          rounds: bundle.header.rounds,
+          ctx: "store" as const,
+          mPw: true,
+          kdf
+        };
+        const storeWrapAad = this.versionManager.buildWrapAad(fields);
+        const wrapped = await this.enc.wrapDek(dek, kek, storeWrapAad);
+        const header: PersistedConfigV5["header"] = {
+          ...fields,
+          ...(await this.keyChecksFor(kek, storeWrapAad)),
+          iv: wrapped.ivWrap,
+          wrappedKey: wrapped.wrappedKey
+        };
         const plain = bundle.data.iv && bundle.data.ciphertext
-          ? await this.enc.decryptData<Record<string, unknown>>(dek, bundle.data.iv, bundle.data.ciphertext, dataAadBuilder(bundle.header.iv, bundle.header.wrappedKey))
+          ? await this.enc.decryptData<Record<string, unknown>>(dek, bundle.data.iv, bundle.data.ciphertext, dataAad)
           : {};
-        const data = await this.enc.encryptData(dek, plain, dataAadStore);
-
-        this.config = {
-          header: {
-            v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION,
-            salt: bundle.header.salt,
-            rounds: (bundle.header as any).rounds,
-            iv: wrapped.ivWrap,
-            wrappedKey: wrapped.wrappedKey,
-            ctx: ctxStore,
-            mPw: true
-          },
-          data
-        };
+        const data = await this.enc.encryptData(dek, plain, this.versionManager.buildDataAad(header));
+
+        this.config = { header, data };
       } else {
-        this.config = bundle as PersistedConfigV3;
+        this.config = bundle;
       }
 
       this.dek = null;
       this.session.clear();
-      this.persist();
+      await this.persist(openedDek);
       this.transitionTo(new LockedState(this));
       return "masterPassword";
     }
 
+    const exportKek = await this.deriveKekFromPassword(password, base64ToBytes(bundle.header.salt), kdf);
+    const check = await this.keyCheck(bundle.header as HeaderV5, exportKek);
+    if (check === false) throw new InvalidImportPasswordError();
+    await this.assertKeyCommitment(bundle.header, exportKek, wrapAad);
+
+    let extractableDek: CryptoKey;
+    let plain: Record<string, unknown>;
     try {
-      const exportKek = await deriveKekFromPassword(password, base64ToBytes(bundle.header.salt), (bundle.header as any).rounds);
-      const extractableDek = await this.enc.unwrapDek(bundle.header.iv, bundle.header.wrappedKey, exportKek, true, wrapAad);
+      extractableDek = await this.enc.unwrapDek(bundle.header.iv, bundle.header.wrappedKey, exportKek, true, wrapAad);
+      plain = bundle.data.iv && bundle.data.ciphertext
+        ? await this.enc.decryptData<Record<string, unknown>>(extractableDek, bundle.data.iv, bundle.data.ciphertext, dataAad)
+        : {};
+    } catch {
+      throw check
+        ? new CorruptImportDataError("The export password is correct, but the export data is corrupted")
+        : new ImportError("Invalid export password or corrupted export data");
+    }
 
-      const deviceKek = await DeviceKeyProvider.getKey(this.idbConfig);
+    const deviceKek = await this.kekProvider.getKey();
 
-      const ctxStore: PersistedConfigV3["header"]["ctx"] = "store";
-      const wrapAadStore = this.versionManager.buildWrapAad(ctxStore, SLS_CONSTANTS.MIGRATION_TARGET_VERSION);
-      const { ivWrap, wrappedKey } = await this.enc.wrapDek(extractableDek, deviceKek, wrapAadStore);
-      const dataAadStore = this.versionManager.buildDataAad(ctxStore, SLS_CONSTANTS.MIGRATION_TARGET_VERSION, ivWrap, wrappedKey);
+    const fields = { v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION, salt: "", rounds: 1, ctx: "store" as const };
+    const wrapAadStore = this.versionManager.buildWrapAad(fields);
+    const { ivWrap, wrappedKey } = await this.enc.wrapDek(extractableDek, deviceKek, wrapAadStore);
+    const header: PersistedConfigV5["header"] = { ...fields, iv: ivWrap, wrappedKey };
+    const data = await this.enc.encryptData(extractableDek, plain, this.versionManager.buildDataAad(header));
+    for (const k of Object.keys(plain)) plain[k] = null;
 
-      const plain = bundle.data.iv && bundle.data.ciphertext
-        ? await this.enc.decryptData<Record<string, unknown>>(extractableDek, bundle.data.iv, bundle.data.ciphertext, dataAadBuilder(bundle.header.iv, bundle.header.wrappedKey))
-        : {};
-      const data = await this.enc.encryptData(extractableDek, plain, dataAadStore);
+    this.config = { header, data };
+    this.dek = await this.enc.unwrapDek(ivWrap, wrappedKey, deviceKek, false, wrapAadStore);
+    this.session.clear();
+    await this.persist();
+    this.transitionTo(new DeviceModeState(this));
+    return "customExportPassword";
+  }
 
-      this.config = {
-        header: {
-          v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION,
-          salt: "",
-          rounds: 1,
-          iv: ivWrap,
-          wrappedKey,
-          ctx: ctxStore
-        },
-        data
-      };
-      this.dek = await this.enc.unwrapDek(ivWrap, wrappedKey, deviceKek, false, wrapAadStore);
-      this.session.clear();
-      this.persist();
-      this.transitionTo(new DeviceModeState(this));
-      return "customExportPassword";
+  /**
+   * List the key slots of a master-password store.
+   *
+   * @returns The primary password wrap (id `"primary"`) followed by the additional slots; empty in device mode.
+   *
+   * @remarks
+   * Slot metadata is not secret and is available while locked.
+   */
+  public async listKeySlots(): Promise<KeySlotInfo[]> {
+    await this.ready;
+    return KeySlots.info(this.config);
+  }
+
+  /**
+   * Add a key slot that opens the store with another password (e.g. a second user or a backup password).
+   *
+   * @param password - Additional password (non-empty string).
+   * @param label - Optional human-readable label stored in clear text in the header.
+   * @returns The new slot id.
+   * @throws {@link ModeError} In device mode.
+   * @throws {@link LockedError} If the session is locked.
+   * @throws {@link ValidationError} If the password is empty or the label is not a string.
+   *
+   * @remarks
+   * - {@link unlock} tries the primary password first and then every password slot.
+   * - Slots wrap the same DEK, so stored data is not re-encrypted.
+   */
+  public async addPasswordSlot(password: string, label?: string): Promise<string> {
+    await this.ready;
+    this.requireSlotAccess(label);
+    if (typeof password !== "string" || password.trim().length === 0) {
+      throw new ValidationError("password must be a non-empty string");
+    }
+    const saltB64 = this.enc.generateSaltB64();
+    const kdf = this.kdf;
+    const kek = await this.deriveKekFromPassword(password, base64ToBytes(saltB64), kdf);
+    return this.addKeySlot({ kind: "password", label, salt: saltB64, rounds: kdf.time, kdf }, kek);
+  }
+
+  /**
+   * Add a key slot wrapped by this browser profile's device KEK.
+   *
+   * @param label - Optional human-readable label stored in clear text in the header.
+   * @returns The new slot id.
+   * @throws {@link ModeError} In device mode.
+   * @throws {@link LockedError} If the session is locked.
+   * @throws {@link ValidationError} If a device slot already exists.
+   *
+   * @remarks
+   * - On startup the store opens **unlocked** on this device without asking for the password; after {@link lock}
+   *   the password is required again.
+   * - Sessions opened through the device slot need a custom password for {@link exportData}.
+   */
+  public async addDeviceSlot(label?: string): Promise<string> {
+    await this.ready;
+    this.requireSlotAccess(label);
+    if (KeySlots.list(this.config).some((slot) => slot.kind === "device")) {
+      throw new ValidationError("A device key slot already exists");
+    }
+    const deviceKek = await this.kekProvider.getKey();
+    return this.addKeySlot({ kind: "device", label, salt: "", rounds: 1 }, deviceKek);
+  }
+
+  /**
+   * Remove an additional key slot.
+   *
+   * @param id - Slot id from {@link listKeySlots}.
+   * @throws {@link ModeError} In device mode.
+   * @throws {@link LockedError} If the session is locked.
+   * @throws {@link ValidationError} For `"primary"`, unknown ids, or the slot that unlocked this session.
+   */
+  public async removeKeySlot(id: string): Promise<void> {
+    await this.ready;
+    this.requireSlotAccess();
+    if (id === "primary") {
+      throw new ValidationError("The primary key slot cannot be removed; use rotateMasterPassword() or removeMasterPassword()");
+    }
+    const slots = KeySlots.list(this.config);
+    if (!slots.some((slot) => slot.id === id)) throw new ValidationError(`Unknown key slot: ${String(id)}`);
+    if (this.session.slotId() === id) {
+      throw new ValidationError("Cannot remove the key slot used to unlock this session");
+    }
+
+    const { slots: _removed, ...header } = this.config!.header as HeaderV3 | HeaderV4 | HeaderV5;
+    const rest = slots.filter((slot) => slot.id !== id);
+    await this.replaceConfig({
+      header: rest.length > 0 ? { ...header, slots: rest } : header,
+      data: this.config!.data
+    } as PersistedConfig);
+  }
+
+  /**
+   * Enroll a passkey that can unlock this store via {@link unlockWithPasskey}.
+   *
+   * @param label - Optional human-readable label stored in clear text in the header.
+   * @param registration - Names shown by the browser; defaults to the library name and the storage key.
+   * @returns The new key slot id.
+   * @throws {@link ModeError} In device mode.
+   * @throws {@link LockedError} If the session is locked.
+   * @throws {@link NotSupportedError} If WebAuthn or the PRF extension is unavailable.
+   *
+   * @remarks
+   * Creates a WebAuthn credential with the PRF extension and stores a `"passkey"` key slot holding the DEK wrapped
+   * by `HKDF(PRF(credential, salt), salt)`. Only the credential id and salt are stored.
+   */
+  public async enrollPasskey(label?: string, registration?: Partial<PasskeyRegistration>): Promise<string> {
+    await this.ready;
+    this.requireSlotAccess(label);
+
+    const credentialId = await this.passkeyAuthenticator.register({
+      rpName: registration?.rpName ?? SLS_CONSTANTS.WEBAUTHN.RP_NAME,
+      userName: registration?.userName ?? this.storageKeyStr
+    });
+    const saltB64 = this.enc.generateSaltB64();
+    const salt = base64ToBytes(saltB64);
+    const { output } = await this.passkeyAuthenticator.evaluate([{ credentialId, salt }]);
+    let kek: CryptoKey;
+    try {
+      kek = await deriveKekFromPrf(output, salt);
+    } finally {
+      output.fill(0);
+    }
+    return this.addKeySlot(
+      { kind: "passkey", label, salt: saltB64, rounds: 1, credentialId: bytesToBase64(credentialId) },
+      kek
+    );
+  }
+
+  /**
+   * Create a recovery key that can reset a forgotten master password.
+   *
+   * @returns The recovery code (grouped base32, 160 bits). It is shown **once**; only a wrap of the DEK is stored.
+   * @throws {@link ModeError} In device mode.
+   * @throws {@link LockedError} If the session is locked.
+   *
+   * @remarks
+   * - Stored as a `"recovery"` key slot (see {@link listKeySlots}); creating a new recovery key replaces the old one.
+   * - The KEK is derived from the code with HKDF-SHA-256 (the code is already high-entropy, so no Argon2).
+   * - Use {@link unlockWithRecoveryKey} to set a new master password with it.
+   */
+  public async createRecoveryKey(): Promise<string> {
+    await this.ready;
+    this.requireSlotAccess();
+    const { code, bytes } = generateRecoveryCode();
+    const saltB64 = this.enc.generateSaltB64();
+    const kek = await deriveKekFromRecoveryCode(bytes, base64ToBytes(saltB64));
+    bytes.fill(0);
+    await this.addKeySlot({ kind: "recovery", salt: saltB64, rounds: 1 }, kek, true);
+    return code;
+  }
+
+  /**
+   * Open the store with its recovery key and set a new master password.
+   *
+   * @param code - Recovery code from {@link createRecoveryKey} (case, spaces and dashes are ignored).
+   * @param newPassword - New master password (non-empty string).
+   * @throws {@link ModeError} In device mode.
+   * @throws {@link ValidationError} If no recovery key is set, the code is wrong, or the new password is empty.
+   *
+   * @remarks
+   * - Works while locked. The primary password is replaced; other key slots (including the recovery key) stay valid.
+   * - On success the session is unlocked with the new password.
+   */
+  public async unlockWithRecoveryKey(code: string, newPassword: string): Promise<void> {
+    await this.ready;
+    this.requireConfig();
+    if (!this.isUsingMasterPassword()) throw new ModeError("No master password is set");
+    if (typeof newPassword !== "string" || newPassword.trim().length === 0) {
+      throw new ValidationError("newPassword must be a non-empty string");
+    }
+    const slot = KeySlots.list(this.config).find((s) => s.kind === "recovery");
+    if (!slot) throw new ValidationError("No recovery key is set");
+
+    const bytes = parseRecoveryCode(code);
+    const recoveryKek = await deriveKekFromRecoveryCode(bytes, base64ToBytes(slot.salt));
+    bytes.fill(0);
+    let dek: CryptoKey;
+    try {
+      dek = await KeySlots.unwrap(this.enc, this.versionManager, this.config!, slot, recoveryKek, true);
+    } catch {
+      throw new ValidationError("Invalid recovery key");
+    }
+
+    // The extractable DEK stays local: the session only gets a non-extractable one once the new envelope is written.
+    const cfg = this.config!;
+    const plain = cfg.data.iv && cfg.data.ciphertext
+      ? await this.enc.decryptData<Record<string, unknown>>(dek, cfg.data.iv, cfg.data.ciphertext, this.versionManager.getAadFor("data", cfg))
+      : {};
+
+    const saltB64 = this.enc.generateSaltB64();
+    const kdf = this.kdf;
+    const rounds = kdf.time;
+    const kek = await this.deriveKekFromPassword(newPassword, base64ToBytes(saltB64), kdf);
+
+    const fields = { v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION, salt: saltB64, rounds, ctx: "store" as const, kdf };
+    const wrapAad = this.versionManager.buildWrapAad(fields);
+    const { ivWrap, wrappedKey } = await this.enc.wrapDek(dek, kek, wrapAad);
+    const header: PersistedConfigV5["header"] = { ...fields, ...(await this.keyChecksFor(kek, wrapAad)), iv: ivWrap, wrappedKey };
+    const data = await this.enc.encryptData(dek, plain, this.versionManager.buildDataAad(header));
+    for (const k of Object.keys(plain)) (plain as Record<string, unknown>)[k] = null;
+
+    await this.replaceConfig({
+      header: { ...header, slots: KeySlots.list(this.config) },
+      data
+    }, dek);
+
+    this.dek = await this.enc.unwrapDek(ivWrap, wrappedKey, kek, false, wrapAad);
+    this.session.set(kek, saltB64, rounds);
+    this.transitionTo(new MasterPasswordState(this));
+  }
+
+  /**
+   * List envelopes that initialization moved to quarantine instead of overwriting.
+   *
+   * @returns Entry metadata (id, reset reason, timestamp, size), oldest first.
+   */
+  public async listQuarantined(): Promise<QuarantineInfo[]> {
+    await this.ready;
+    return this.quarantine.list();
+  }
+
+  /**
+   * Return a quarantined envelope exactly as it was found (still encrypted), e.g. for offline analysis or backup.
+   *
+   * @param id - Entry id from {@link listQuarantined}.
+   * @throws {@link ValidationError} If the id is unknown.
+   */
+  public async exportQuarantined(id: string): Promise<string> {
+    await this.ready;
+    return this.quarantine.get(id);
+  }
+
+  /**
+   * Retry decrypting a quarantined envelope and, on success, restore it as the active store.
+   *
+   * @param id - Entry id from {@link listQuarantined}.
+   * @param masterPassword - Required when the envelope is password-protected.
+   * @returns `"device"` or `"masterPassword"` depending on the restored envelope's protection.
+   * @throws {@link ValidationError} If the id is unknown or the password is missing.
+   * @throws {@link InvalidPasswordError} / {@link CorruptDataError} If the password is wrong, or right for a damaged envelope.
+   * @throws {@link KeyCommitmentError} If the envelope carries a key-commitment tag the password does not match.
+   * @throws {@link ImportError} If the envelope is structurally invalid.
+   * @throws {@link CryptoError} If the device KEK still cannot unwrap a device-mode envelope.
+   *
+   * @remarks
+   * - Typical use: the device KEK became readable again (e.g. IndexedDB came back) after a `device-kek-mismatch` reset.
+   * - The restored envelope **replaces** the current store contents; the entry is removed from quarantine.
+   * - Password-protected envelopes are restored **unlocked** for this session.
+   */
+  public async retryQuarantined(id: string, masterPassword?: string): Promise<"device" | "masterPassword"> {
+    await this.ready;
+    const raw = await this.quarantine.get(id);
+
+    let candidate: PersistedConfig | null;
+    try { candidate = JSON.parse(raw) as PersistedConfig; } catch { candidate = null; }
+    if (!this.versionManager.isValidConfig(candidate)) {
+      throw new ImportError("Quarantined envelope is not a valid store");
+    }
+
+    const previousConfig = this.config;
+    const previousDek = this.dek;
+    const wrapAad = this.versionManager.getAadFor("wrap", candidate);
+
+    if (candidate.header.rounds > 1) {
+      if (typeof masterPassword !== "string" || masterPassword.trim().length === 0) {
+        throw new ValidationError("masterPassword is required to restore a password-protected envelope");
+      }
+      const { salt, rounds } = candidate.header;
+      const kek = await this.deriveKekFromPassword(masterPassword, base64ToBytes(salt), this.versionManager.kdfFor(candidate.header));
+      const check = await this.keyCheck(candidate.header as HeaderV5, kek);
+      if (check === false) throw new InvalidPasswordError();
+      await this.assertKeyCommitment(candidate.header, kek, wrapAad);
+      let dek: CryptoKey;
+      try {
+        dek = await this.enc.unwrapDek(candidate.header.iv, candidate.header.wrappedKey, kek, false, wrapAad);
+      } catch {
+        throw check ? new CorruptDataError() : new InvalidPasswordError();
+      }
+
+      try {
+        this.config = candidate;
+        this.dek = dek;
+        this.session.set(kek, salt, rounds);
+        if (this.versionManager.isLatest(candidate)) {
+          await this.persist();
+        } else {
+          await this.migrateToLatest("master", kek);
+        }
+      } catch (e) {
+        this.config = previousConfig;
+        this.dek = previousDek;
+        this.session.clear();
+        throw e;
+      }
+      await this.quarantine.remove(id);
+      this.transitionTo(new MasterPasswordState(this));
+      return "masterPassword";
+    }
+
+    let deviceKek: CryptoKey;
+    try {
+      deviceKek = await this.resolveDeviceKek(candidate);
     } catch {
-      throw new ImportError("Invalid export password or corrupted export data");
+      throw new CryptoError("Device KEK cannot unwrap the quarantined envelope");
+    }
+
+    try {
+      this.config = candidate;
+      this.session.clear();
+      if (this.versionManager.isLatest(candidate)) {
+        await this.persist();
+      } else {
+        await this.migrateToLatest("device", deviceKek);
+      }
+    } catch (e) {
+      this.config = previousConfig;
+      this.dek = previousDek;
+      throw e;
     }
+    await this.quarantine.remove(id);
+    this.transitionTo(new DeviceModeState(this));
+    return "device";
+  }
+
+  /**
+   * Permanently delete a quarantined envelope.
+   *
+   * @param id - Entry id from {@link listQuarantined}.
+   * @throws {@link ValidationError} If the id is unknown.
+   */
+  public async discardQuarantined(id: string): Promise<void> {
+    await this.ready;
+    return this.quarantine.remove(id);
   }
 
   /**
@@ -497,16 +1231,221 @@ export class SecureLocalStorage {
    * - Clears the session KEK/DEK from memory.
    * - Removes the localStorage bundle.
    * - Deletes the device KEK record in IndexedDB **for this instance’s namespace** (surgical delete).
+   * - Quarantined envelopes are kept; device-mode entries become undecryptable once the device KEK is deleted.
    * - Re-initializes the store to a fresh device-mode v3 bundle (empty object).
+   * - Also the way out of a failed `strict` initialization: the unreadable envelope is discarded and the
+   *   instance becomes usable again.
    */
   public async clear(): Promise<void> {
-    await this.ready;
-    return this.state.clear();
+    let initFailed = false;
+    await this.ready.catch(() => { initFailed = true; });
+    if (!initFailed) return this.state.clear();
+
+    this.initError = null;
+    this.ready = this.track(this.state.clear());
+    return this.ready;
+  }
+
+  /** @internal Guard for key slot changes: master-password mode, unlocked, optional string label. */
+  private requireSlotAccess(label?: string): void {
+    if (!this.isUsingMasterPassword()) throw new ModeError("Key slots require a master password");
+    if (this.isLocked()) throw new LockedError();
+    if (label !== undefined && typeof label !== "string") throw new ValidationError("label must be a string");
+  }
+
+  /**
+   * @internal Wrap the session DEK for a new key slot and persist the extended header.
+   * With `replaceKind`, existing slots of the same kind are dropped.
+   */
+  private async addKeySlot(spec: Omit<KeySlotSpec, "id">, kek: CryptoKey, replaceKind = false): Promise<string> {
+    const { label, ...rest } = spec;
+    await this.unwrapDekWithSession(true);
+    let slot: KeySlot;
+    try {
+      slot = await KeySlots.wrap(this.enc, this.versionManager, this.dek!, kek, {
+        id: randomId(),
+        ...rest,
+        ...(label !== undefined ? { label } : {})
+      });
+    } finally {
+      await this.unwrapDekWithSession(false);
+    }
+
+    const header = this.config!.header as HeaderV3 | HeaderV4 | HeaderV5;
+    const kept = (header.slots ?? []).filter((s) => !replaceKind || s.kind !== spec.kind);
+    await this.replaceConfig({
+      header: { ...header, slots: [...kept, slot] },
+      data: this.config!.data
+    } as PersistedConfig);
+    return slot.id;
+  }
+
+  /** @internal Swap in a new config and persist it; the previous config is restored if persisting fails. */
+  private replaceConfig(next: PersistedConfig, dek: CryptoKey | null = this.dek): Promise<void> {
+    return this.exclusive(() => this.swapConfig(next, dek));
+  }
+
+  /** @internal Body of {@link replaceConfig} for callers already inside {@link exclusive}; restores the old config on failure. */
+  private async swapConfig(next: PersistedConfig, dek: CryptoKey | null = this.dek, plain?: Record<string, unknown>): Promise<void> {
+    const previous = this.config;
+    this.config = next;
+    try {
+      await this.write(dek, plain);
+    } catch (e) {
+      this.config = previous;
+      throw e;
+    }
+  }
+
+  /**
+   * @internal Run `fn` once every write queued before it has settled. Persisting reads the current config, so
+   * two writes that overlap (e.g. {@link setData} and a background KDF upgrade) would otherwise drop one of them.
+   */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.writes.then(fn, fn);
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+
+  /** @internal Record the outcome of an initialization promise for {@link getStatus}. */
+  private track(init: Promise<void>): Promise<void> {
+    // Failures surface through the awaiting methods; don't report them as unhandled.
+    init.catch((e) => { this.initError = e ?? new Error("Initialization failed"); });
+    return init;
+  }
+
+  /**
+   * @internal Persist current config via the configured store (with integrity check and error wrapping).
+   * A v5 config first gets the next `header.rev` and its data is sealed under the new data AAD; the revision
+   * is recorded with the KEK provider once the write succeeded (see {@link checkRevision}). Writes run one at a
+   * time, in call order (see {@link exclusive}).
+   *
+   * @param dek - Key for the seal; defaults to the session DEK (pass it when persisting a store that stays locked).
+   * @param plain - New payload to encrypt once under the final header. Without it the current data is re-sealed,
+   *   which only header changes (new wraps, key slots) should rely on.
+   */
+  public persist(dek: CryptoKey | null = this.dek, plain?: Record<string, unknown>): Promise<void> {
+    return this.exclusive(() => this.write(dek, plain));
   }
 
-  /** @internal Persist current config to localStorage (with integrity check and error wrapping). */
-  public persist(): void {
-    this.store.set(this.config!);
+  /** @internal Body of {@link persist}; callers hold the write queue. */
+  private async write(dek: CryptoKey | null, plain?: Record<string, unknown>): Promise<void> {
+    const cfg = this.config!;
+    if (!this.versionManager.isV5(cfg)) {
+      if (plain) {
+        if (!dek) throw new LockedError();
+        this.config = { ...cfg, data: await this.enc.encryptData(dek, plain, this.versionManager.getAadFor("data", cfg)) };
+      }
+      await this.store.set(this.config!);
+      return;
+    }
+
+    if (!dek) throw new LockedError();
+    const header = { ...cfg.header, rev: (await this.latestRevision(cfg)) + 1 };
+    const payload = plain ?? (cfg.data.iv && cfg.data.ciphertext
+      ? await this.enc.decryptData<Record<string, unknown>>(dek, cfg.data.iv, cfg.data.ciphertext, this.versionManager.buildDataAad(cfg.header))
+      : {});
+    const { iv, ciphertext } = await this.enc.encryptData(dek, payload, this.versionManager.buildDataAad(header));
+    if (!plain) for (const k of Object.keys(payload)) payload[k] = null;
+
+    this.config = { header, data: { iv, ciphertext } };
+    await this.store.set(this.config);
+    this.revision = header.rev;
+    await this.kekProvider.setRevision?.(this.storageKeyStr, header.rev);
+    if (this.versionManager.minVersion < header.v) {
+      this.versionManager.minVersion = header.v;
+      await this.kekProvider.setMinVersion?.(this.storageKeyStr, header.v);
+    }
+  }
+
+  /**
+   * Highest revision known for this store right before a write: the in-memory config, the revision recorded
+   * with the KEK provider and the envelope currently persisted. Another instance on the same storage key may
+   * have written since this one loaded, so the stored values are read again instead of trusted from memory.
+   */
+  private async latestRevision(cfg: PersistedConfigV5): Promise<number> {
+    const recorded = (await this.kekProvider.getRevision?.(this.storageKeyStr)) ?? 0;
+    const stored = (await this.store.get())?.header as { rev?: unknown } | undefined;
+    const storedRev = typeof stored?.rev === "number" ? stored.rev : 0;
+    return Math.max(cfg.header.rev ?? 0, this.revision, recorded, storedRev);
+  }
+
+  /**
+   * @internal Key checks for a new password wrap under `kek`: the key check value `kcv`, plus the key-commitment
+   * tag `kc` when {@link keyCommitment} is on.
+   */
+  public async keyChecksFor(kek: CryptoKey, wrapAad: Uint8Array): Promise<{ kcv: string; kc?: string }> {
+    return {
+      kcv: await keyCheckValue(kek),
+      ...(this.keyCommitment ? { kc: await keyCommitment(kek, wrapAad) } : {})
+    };
+  }
+
+  /**
+   * @internal Check a derived KEK against the key check value of a header or key slot: `true` or `false`, or
+   * `null` when it has none (written before key check values; a failed unwrap is then ambiguous).
+   */
+  public async keyCheck(holder: { kcv?: string }, kek: CryptoKey): Promise<boolean | null> {
+    return holder.kcv === undefined ? null : verifyKeyCheckValue(kek, holder.kcv);
+  }
+
+  /** @internal Throw {@link KeyCommitmentError} if `header` carries a key-commitment tag that `kek` does not match. */
+  public async assertKeyCommitment(header: PersistedConfig["header"], kek: CryptoKey, wrapAad?: Uint8Array): Promise<void> {
+    const kc = (header as HeaderV5).kc;
+    if (kc !== undefined && !(wrapAad && (await verifyKeyCommitment(kek, wrapAad, kc)))) {
+      throw new KeyCommitmentError();
+    }
+  }
+
+  /**
+   * @internal
+   * Load the minimum accepted envelope version recorded for this store (downgrade protection). Runs before the
+   * persisted config is validated; the version is raised by {@link persist} once the store is in the current format.
+   */
+  public async loadMinVersion(): Promise<void> {
+    const recorded = (await this.kekProvider.getMinVersion?.(this.storageKeyStr)) ?? 0;
+    this.versionManager.minVersion = Math.max(this.versionManager.minVersion, recorded);
+  }
+
+  /**
+   * @internal
+   * Compare a loaded config with the revision recorded for this store and throw {@link RollbackDetectedError}
+   * if it is older. Initialization treats that like any unreadable envelope (reset, quarantine or `strict`). Envelopes without `rev` (pre-v5 or never persisted by v5) count as revision 0.
+   *
+   * The header `rev` is only authenticated by the data AAD, so an envelope with a forged `rev` passes this check;
+   * {@link authenticateRevision} completes it once the DEK is known.
+   */
+  public async checkRevision(cfg: PersistedConfig): Promise<void> {
+    const recorded = (await this.kekProvider.getRevision?.(this.storageKeyStr)) ?? 0;
+    const rev = (cfg.header as { rev?: number }).rev ?? 0;
+    this.revision = Math.max(this.revision, recorded);
+    if (rev < recorded) {
+      throw new RollbackDetectedError(
+        `Persisted store has revision ${rev}, but revision ${recorded} was already written on this device`
+      );
+    }
+  }
+
+  /**
+   * @internal
+   * Authenticate the loaded envelope's `rev` with its DEK by decrypting the data, whose AAD binds `rev`. Throws
+   * {@link RollbackDetectedError} if that fails while a revision is recorded: an older envelope replayed with a
+   * raised `rev` cannot be told apart from a damaged one, and neither may be opened. Runs before the DEK is kept.
+   */
+  public async authenticateRevision(dek: CryptoKey): Promise<void> {
+    const cfg = this.config!;
+    if (this.revision === 0 || !this.versionManager.isV5(cfg)) return;
+    let plain: unknown;
+    try {
+      if (!cfg.data.iv || !cfg.data.ciphertext) throw new CryptoError("Missing data section");
+      plain = await this.enc.decryptData<unknown>(dek, cfg.data.iv, cfg.data.ciphertext, this.versionManager.buildDataAad(cfg.header));
+    } catch {
+      throw new RollbackDetectedError(
+        `Persisted store claims revision ${cfg.header.rev ?? 0}, but its data does not authenticate it`
+      );
+    }
+    // Only the tag mattered; getData() still validates the payload shape.
+    if (plain && typeof plain === "object") for (const k of Object.keys(plain)) (plain as Record<string, unknown>)[k] = null;
   }
 
   /** @internal Assert a config is loaded; throw if not present (used by state methods). */
@@ -521,20 +1460,267 @@ export class SecureLocalStorage {
 
   /** @internal Retrieve the in-RAM session KEK or throw if locked. */
   public sessionKekOrThrow(): CryptoKey {
-    const { salt, rounds } = this.config!.header as any;
+    const { salt, rounds } = this.config!.header;
     const kek = this.session.match(salt, rounds);
     if (!kek) throw new LockedError("Session locked.");
     return kek;
   }
 
+  /**
+   * @internal
+   * Open the current config with a password: the primary wrap first, then each password key slot.
+   * Does not touch the session; returns the non-extractable DEK and the KEK/slot that opened it, or `null` when
+   * the password matches no wrap.
+   *
+   * Wraps with a key check value are only unwrapped when it matches. If none opens, this throws
+   * {@link CorruptDataError} when a key check value matched, or {@link KeyCommitmentError} when the primary
+   * key commitment did not.
+   */
+  public async openWithPassword(
+    password: string,
+    opts?: UnlockOptions
+  ): Promise<{ dek: CryptoKey; kek: CryptoKey; salt: string; rounds: number; slotId: string | null } | null> {
+    const cfg = this.config!;
+    const { salt, rounds, iv, wrappedKey } = cfg.header;
+    const slots = KeySlots.list(cfg).filter((s) => s.kind === "password");
+    const total = 1 + slots.length;
+    const signal = opts?.signal;
+    opts?.onProgress?.(0);
+
+    // Why a wrap that accepted the password did not open; thrown if no other wrap opens.
+    let failure: KeyCommitmentError | CorruptDataError | null = null;
+
+    const kek = await this.deriveKekFromPassword(password, base64ToBytes(salt), this.versionManager.kdfFor(cfg.header), signal);
+    const check = await this.keyCheck(cfg.header as HeaderV5, kek);
+    if (check !== false) {
+      const wrapAad = this.versionManager.getAadFor("wrap", cfg);
+      try {
+        await this.assertKeyCommitment(cfg.header, kek, wrapAad);
+        const dek = await this.enc.unwrapDek(iv, wrappedKey, kek, false, wrapAad);
+        opts?.onProgress?.(1);
+        return { dek, kek, salt, rounds, slotId: null };
+      } catch (e) {
+        if (e instanceof KeyCommitmentError) failure = e;
+        else if (check) failure = new CorruptDataError();
+        /* fall through to key slots */
+      }
+    }
+
+    for (const [i, slot] of slots.entries()) {
+      opts?.onProgress?.((i + 1) / total);
+      const slotKek = await this.deriveKekFromPassword(password, base64ToBytes(slot.salt), this.versionManager.kdfFor(slot), signal);
+      const slotCheck = await this.keyCheck(slot, slotKek);
+      if (slotCheck === false) continue;
+      try {
+        const dek = await KeySlots.unwrap(this.enc, this.versionManager, cfg, slot, slotKek, false);
+        opts?.onProgress?.(1);
+        return { dek, kek: slotKek, salt: slot.salt, rounds: slot.rounds, slotId: slot.id };
+      } catch {
+        if (slotCheck) failure ??= new CorruptDataError(`Key slot "${slot.id}" accepts the password but is corrupted`);
+        /* next slot */
+      }
+    }
+    opts?.onProgress?.(1);
+    if (failure) throw failure;
+    return null;
+  }
+
+  /**
+   * @internal
+   * Start a background re-wrap of the password wrap that `opened` came from when its KDF parameters are weaker
+   * than {@link kdf}. Does not block the caller; the outcome is reported as a `"kdf-upgraded"` or
+   * `"kdf-upgrade-failed"` event. An upgrade that is overtaken by a password change, `clear()` etc. is dropped.
+   */
+  public scheduleKdfUpgrade(
+    password: string,
+    opened: { kek: CryptoKey; salt: string; rounds: number; slotId: string | null }
+  ): void {
+    const source = opened.slotId === null
+      ? this.config?.header
+      : KeySlots.list(this.config).find((s) => s.id === opened.slotId);
+    if (!source || source.salt !== opened.salt) return;
+    const previous = this.versionManager.kdfFor(source);
+    if (!isWeakerKdf(previous, this.kdf)) return;
+
+    const slotId = opened.slotId ?? "primary";
+    this.upgradeKdf(password, opened).then(
+      (done) => { if (done) this.events.emit("kdf-upgraded", { slotId, previous, kdf: this.kdf }); },
+      (error) => this.events.emit("kdf-upgrade-failed", { slotId, error })
+    );
+  }
+
+  /** @internal Body of {@link scheduleKdfUpgrade}; resolves `false` when the wrap changed in the meantime. */
+  private async upgradeKdf(
+    password: string,
+    opened: { kek: CryptoKey; salt: string; rounds: number; slotId: string | null }
+  ): Promise<boolean> {
+    const kdf = this.kdf;
+    const saltB64 = this.enc.generateSaltB64();
+    const kek = await this.deriveKekFromPassword(password, base64ToBytes(saltB64), kdf);
+
+    // Rebuild from the config current once earlier writes (e.g. a setData right after unlock) have landed. State
+    // changes that assign the config before queueing their write can still interleave, so those are retried.
+    return this.exclusive(async () => {
+      for (let attempt = 0; attempt < 3; attempt++) {
+        const cfg = this.config;
+        const data = cfg?.data;
+        let next: PersistedConfig;
+        let dek: CryptoKey;
+        let plain: Record<string, unknown> | undefined;
+
+        if (opened.slotId === null) {
+          if (!cfg || cfg.header.rounds <= 1 || cfg.header.salt !== opened.salt) return false;
+          dek = await this.enc.unwrapDek(cfg.header.iv, cfg.header.wrappedKey, opened.kek, true, this.versionManager.getAadFor("wrap", cfg));
+          plain = cfg.data.iv && cfg.data.ciphertext
+            ? await this.enc.decryptData<Record<string, unknown>>(dek, cfg.data.iv, cfg.data.ciphertext, this.versionManager.getAadFor("data", cfg))
+            : {};
+          const { iv: _iv, wrappedKey: _wrappedKey, kc: _kc, slots, ...rest } = cfg.header as HeaderV5;
+          const fields = { ...rest, v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION, salt: saltB64, rounds: kdf.time, ctx: "store" as const, kdf };
+          const wrapAad = this.versionManager.buildWrapAad(fields);
+          const { ivWrap, wrappedKey } = await this.enc.wrapDek(dek, kek, wrapAad);
+          const header: PersistedConfigV5["header"] = { ...fields, ...(await this.keyChecksFor(kek, wrapAad)), iv: ivWrap, wrappedKey };
+          // The data is sealed once under the final header by the write below.
+          next = { header: { ...header, ...(slots ? { slots } : {}) }, data: cfg.data };
+        } else {
+          const slot = KeySlots.list(cfg).find((s) => s.id === opened.slotId);
+          if (!cfg || !slot || slot.salt !== opened.salt) return false;
+          dek = await KeySlots.unwrap(this.enc, this.versionManager, cfg, slot, opened.kek, true);
+          const { iv: _iv, wrappedKey: _wrappedKey, ...spec } = slot;
+          const upgraded = await KeySlots.wrap(this.enc, this.versionManager, dek, kek, {
+            ...spec,
+            salt: saltB64,
+            rounds: kdf.time,
+            kdf
+          });
+          const header = cfg.header as HeaderV3 | HeaderV4 | HeaderV5;
+          next = {
+            header: { ...header, slots: KeySlots.list(cfg).map((s) => (s.id === slot.id ? upgraded : s)) },
+            data: cfg.data
+          } as PersistedConfig;
+        }
+
+        try {
+          if (this.config !== cfg || cfg.data !== data) continue;
+          // The session moves to the new wrap only if it is still the one this upgrade started from.
+          const keepSession = this.dek !== null && this.session.slotId() === opened.slotId && this.session.match(opened.salt, opened.rounds) !== null;
+          await this.swapConfig(next, dek, plain);
+          // Same DEK, so the unwrapped session DEK stays valid.
+          if (keepSession) this.session.set(kek, saltB64, kdf.time, opened.slotId);
+          return true;
+        } finally {
+          if (plain) for (const k of Object.keys(plain)) plain[k] = null;
+        }
+      }
+      throw new PersistenceError("The store kept changing during the KDF upgrade");
+    });
+  }
+
+  /**
+   * @internal
+   * Open the current config with one of its passkey slots. Does not touch the session; returns the
+   * non-extractable DEK and the KEK/slot that opened it, or `null` if the chosen passkey does not match.
+   */
+  public async openWithPasskey(): Promise<{ dek: CryptoKey; kek: CryptoKey; salt: string; rounds: number; slotId: string } | null> {
+    const cfg = this.config!;
+    const slots = KeySlots.list(cfg).filter((s) => s.kind === "passkey" && s.credentialId);
+    if (slots.length === 0) throw new ValidationError("No passkey is enrolled");
+
+    const { credentialId, output } = await this.passkeyAuthenticator.evaluate(
+      slots.map((s) => ({ credentialId: base64ToBytes(s.credentialId!), salt: base64ToBytes(s.salt) }))
+    );
+    const chosen = bytesToBase64(credentialId);
+    const slot = slots.find((s) => bytesToBase64(base64ToBytes(s.credentialId!)) === chosen);
+    try {
+      if (!slot) return null;
+      const kek = await deriveKekFromPrf(output, base64ToBytes(slot.salt));
+      const dek = await KeySlots.unwrap(this.enc, this.versionManager, cfg, slot, kek, false);
+      return { dek, kek, salt: slot.salt, rounds: slot.rounds, slotId: slot.id };
+    } catch {
+      return null;
+    } finally {
+      output.fill(0);
+    }
+  }
+
+  /**
+   * @internal
+   * Open a master-password config through its device key slot (startup auto-unlock).
+   * Sets {@link dek} and the session on success; returns `false` when there is no slot or it does not open.
+   */
+  public async openWithDeviceSlot(): Promise<boolean> {
+    const slot = KeySlots.list(this.config).find((s) => s.kind === "device");
+    if (!slot) return false;
+    try {
+      const deviceKek = await this.kekProvider.getKey();
+      this.dek = await KeySlots.unwrap(this.enc, this.versionManager, this.config!, slot, deviceKek, false);
+      this.session.set(deviceKek, slot.salt, slot.rounds, slot.id);
+      return true;
+    } catch {
+      this.dek = null;
+      return false;
+    }
+  }
+
+  /**
+   * @internal
+   * The session KEK together with the wrap it opens: the primary header, or the key slot used to unlock.
+   * Throws {@link LockedError} if the session is locked or its slot was removed.
+   */
+  public sessionWrap(): { kek: CryptoKey; salt: string; rounds: number; slot: KeySlot | null } {
+    const slotId = this.session.slotId();
+    if (slotId === null) {
+      const { salt, rounds } = this.config!.header;
+      return { kek: this.sessionKekOrThrow(), salt, rounds, slot: null };
+    }
+    const slot = KeySlots.list(this.config).find((s) => s.id === slotId);
+    const kek = slot ? this.session.match(slot.salt, slot.rounds) : null;
+    if (!slot || !kek) throw new LockedError("Session locked.");
+    return { kek, salt: slot.salt, rounds: slot.rounds, slot };
+  }
+
+  /** @internal Unwrap the DEK with the session KEK (primary or key slot); optionally extractable for re-wrapping. */
+  public async unwrapDekWithSession(forWrapping: boolean): Promise<void> {
+    const { kek, slot } = this.sessionWrap();
+    if (!slot) {
+      await this.unwrapDekWithKek(kek, forWrapping, this.versionManager.getAadFor("wrap", this.config!));
+      return;
+    }
+    this.dek = await KeySlots.unwrap(this.enc, this.versionManager, this.config!, slot, kek, forWrapping);
+  }
+
+  /**
+   * @internal
+   * Unwrap `cfg`'s DEK with the current device KEK, falling back to a pending KEK left by an interrupted
+   * {@link rotateKeys}. A pending KEK that opens the envelope is committed; one that is not needed is
+   * discarded. Sets {@link dek} and returns the KEK that worked; throws if neither opens the envelope.
+   */
+  public async resolveDeviceKek(cfg: PersistedConfig): Promise<CryptoKey> {
+    const provider = this.kekProvider;
+    const wrapAad = this.versionManager.getAadFor("wrap", cfg);
+    const unwrap = async (kek: CryptoKey) => {
+      this.dek = await this.enc.unwrapDek(cfg.header.iv, cfg.header.wrappedKey, kek, false, wrapAad);
+    };
+
+    const current = await provider.getKey();
+    try {
+      await unwrap(current);
+      await provider.discardPendingKey?.();
+      return current;
+    } catch (e) {
+      const pending = (await provider.getPendingKey?.()) ?? null;
+      if (!pending || !provider.commitPendingKey) throw e;
+      await unwrap(pending);
+      return await provider.commitPendingKey();
+    }
+  }
+
   /** @internal Ensure DEK is loaded (unwraps with device KEK or session KEK as needed). */
   public async ensureDekLoaded(): Promise<void> {
     if (this.dek) return;
     if (this.isUsingMasterPassword()) {
-      const kek = this.sessionKekOrThrow();
-      await this.unwrapDekWithKek(kek, false, this.versionManager.getAadFor("wrap", this.config!));
+      await this.unwrapDekWithSession(false);
     } else {
-      const deviceKek = await DeviceKeyProvider.getKey(this.idbConfig);
+      const deviceKek = await this.kekProvider.getKey();
       await this.unwrapDekWithKek(deviceKek, false, this.versionManager.getAadFor("wrap", this.config!));
     }
   }
@@ -576,6 +1762,17 @@ export class SecureLocalStorage {
     if ("ctx" in h && !(h.ctx === "store" || h.ctx === "export")) {
       throw new ImportError("Invalid header.ctx");
     }
+    if ("kdf" in h) {
+      const problem = h.v >= 4 && h.rounds > 1 ? kdfProblem(h.kdf) : "kdf is only allowed in password-protected v4+ bundles";
+      if (problem) throw new ImportError(`Invalid header.kdf: ${problem}`);
+      if (h.kdf.time !== h.rounds) throw new ImportError("Invalid header.kdf: kdf.time must equal rounds");
+    } else if (h.v >= 4 && h.rounds > 1) {
+      throw new ImportError("Invalid header.kdf: v4+ password-protected bundles must include kdf");
+    }
+
+    if ("kc" in h && (h.v < 5 || h.rounds <= 1 || typeof h.kc !== "string")) {
+      throw new ImportError("Invalid header.kc: only allowed in password-protected v5 bundles");
+    }
 
     if (typeof h.iv !== "string" || h.iv.length === 0) throw new ImportError("Invalid header.iv");
     if (typeof h.wrappedKey !== "string" || h.wrappedKey.length === 0) throw new ImportError("Invalid header.wrappedKey");
@@ -588,6 +1785,7 @@ export class SecureLocalStorage {
       base64ToBytes(h.wrappedKey);
       if (d.iv) base64ToBytes(d.iv);
       if (d.ciphertext) base64ToBytes(d.ciphertext);
+      if ("kc" in h) base64ToBytes(h.kc);
     } catch {
       throw new ImportError("Invalid base64 data");
     }
@@ -604,6 +1802,18 @@ export class SecureLocalStorage {
     );
   }
 
+  /**
+   * @internal Bring the current config up to {@link SLS_CONSTANTS.MIGRATION_TARGET_VERSION}, one version at a time.
+   *
+   * @param mode - `"device"` or `"master"`; see {@link migrateV2ToV3}.
+   * @param kek - The KEK of the primary wrap (device KEK or master-password KEK).
+   */
+  public async migrateToLatest(mode: "device" | "master", kek: CryptoKey): Promise<void> {
+    if (this.versionManager.isV2(this.config!)) await this.migrateV2ToV3(mode, this.config, kek);
+    if (this.versionManager.isV3(this.config!)) await this.migrateV3ToV4(mode, this.config, kek);
+    if (this.versionManager.isV4(this.config!)) await this.migrateV4ToV5(mode, this.config, kek);
+  }
+
   /**
    * @internal Migrate a v2 bundle into a v3 bundle with AAD binding and persist it.
    *
@@ -621,24 +1831,19 @@ export class SecureLocalStorage {
       ? await this.enc.decryptData<Record<string, unknown>>(dek, v2.data.iv, v2.data.ciphertext, undefined)
       : {};
 
-    const ctx: PersistedConfigV3["header"]["ctx"] = "store";
-    const wrapAad = this.versionManager.buildWrapAad(ctx, SLS_CONSTANTS.MIGRATION_TARGET_VERSION);
+    const fields = {
+      v: 3 as const,
+      salt: mode === "device" ? "" : v2.header.salt,
+      rounds: mode === "device" ? 1 : v2.header.rounds,
+      ctx: "store" as const
+    };
+    const wrapAad = this.versionManager.buildWrapAad(fields);
     const { ivWrap, wrappedKey } = await this.enc.wrapDek(dek, kek, wrapAad);
 
-    const dataAad = this.versionManager.buildDataAad(ctx, SLS_CONSTANTS.MIGRATION_TARGET_VERSION, ivWrap, wrappedKey);
-    const { iv, ciphertext } = await this.enc.encryptData(dek, plain, dataAad);
+    const header: PersistedConfigV3["header"] = { ...fields, iv: ivWrap, wrappedKey };
+    const { iv, ciphertext } = await this.enc.encryptData(dek, plain, this.versionManager.buildDataAad(header));
 
-    this.config = {
-      header: {
-        v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION,
-        salt: mode === "device" ? "" : v2.header.salt,
-        rounds: mode === "device" ? 1 : v2.header.rounds,
-        iv: ivWrap,
-        wrappedKey,
-        ctx
-      },
-      data: { iv, ciphertext }
-    };
+    this.config = { header, data: { iv, ciphertext } };
 
     if (mode === "device") {
       const deviceKek = kek;
@@ -649,6 +1854,106 @@ export class SecureLocalStorage {
       this.dek = await this.enc.unwrapDek(ivWrap, wrappedKey, masterKek, false, wrapAad);
     }
 
-    this.persist();
+    await this.persist();
   }
-}
\ No newline at end of file
+
+  /**
+   * @internal Migrate a v3 config into a v4 config and persist it.
+   *
+   * v4 records the KDF descriptor in the header. Master-mode configs keep their salt and KEK and get the
+   * legacy parameters that v3 implied for `rounds`, so the password still opens them unchanged.
+   * Key slots are carried over as-is (their AAD does not depend on the header version).
+   *
+   * @param mode - `"device"` or `"master"` to select the correct header salt/rounds semantics.
+   * @param v3 - The v3 persisted config to migrate.
+   * @param kek - The KEK of the primary wrap (device or master).
+   */
+  public async migrateV3ToV4(
+    mode: "device" | "master",
+    v3: PersistedConfigV3,
+    kek: CryptoKey
+  ): Promise<void> {
+    const dek = await this.enc.unwrapDek(v3.header.iv, v3.header.wrappedKey, kek, true, this.versionManager.getAadFor("wrap", v3));
+    const plain = v3.data.iv && v3.data.ciphertext
+      ? await this.enc.decryptData<Record<string, unknown>>(dek, v3.data.iv, v3.data.ciphertext, this.versionManager.getAadFor("data", v3))
+      : {};
+
+    const { slots, mPw } = v3.header;
+    const fields = {
+      v: 4 as const,
+      salt: mode === "device" ? "" : v3.header.salt,
+      rounds: mode === "device" ? 1 : v3.header.rounds,
+      ...(mPw !== undefined ? { mPw } : {}),
+      ctx: "store" as const,
+      ...(mode === "master" ? { kdf: this.versionManager.kdfFor(v3.header) } : {})
+    };
+    const wrapAad = this.versionManager.buildWrapAad(fields);
+    const { ivWrap, wrappedKey } = await this.enc.wrapDek(dek, kek, wrapAad);
+
+    const header: PersistedConfigV4["header"] = { ...fields, iv: ivWrap, wrappedKey };
+    const { iv, ciphertext } = await this.enc.encryptData(dek, plain, this.versionManager.buildDataAad(header));
+
+    this.config = {
+      header: { ...header, ...(slots ? { slots } : {}) },
+      data: { iv, ciphertext }
+    };
+
+    this.dek = await this.enc.unwrapDek(ivWrap, wrappedKey, kek, false, wrapAad);
+    if (mode === "device") this.session.clear();
+
+    await this.persist();
+  }
+
+  /**
+   * @internal Migrate a v4 config into a v5 config and persist it.
+   *
+   * v5 authenticates every header field in the wrap and data AAD, so the primary wrap and the data are sealed
+   * again under the same KEK. Key slots are carried over as-is: slots without `v` keep their v3 slot AAD until
+   * they are re-wrapped (re-added, KDF upgrade) because their KEKs are not available here.
+   *
+   * @param mode - `"device"` or `"master"` to select the correct header salt/rounds semantics.
+   * @param v4 - The v4 persisted config to migrate.
+   * @param kek - The KEK of the primary wrap (device or master).
+   */
+  public async migrateV4ToV5(
+    mode: "device" | "master",
+    v4: PersistedConfigV4,
+    kek: CryptoKey
+  ): Promise<void> {
+    const dek = await this.enc.unwrapDek(v4.header.iv, v4.header.wrappedKey, kek, true, this.versionManager.getAadFor("wrap", v4));
+    const plain = v4.data.iv && v4.data.ciphertext
+      ? await this.enc.decryptData<Record<string, unknown>>(dek, v4.data.iv, v4.data.ciphertext, this.versionManager.getAadFor("data", v4))
+      : {};
+
+    const { slots, mPw, kdf } = v4.header;
+    const fields = {
+      v: 5 as const,
+      salt: mode === "device" ? "" : v4.header.salt,
+      rounds: mode === "device" ? 1 : v4.header.rounds,
+      ...(mPw !== undefined ? { mPw } : {}),
+      ctx: "store" as const,
+      ...(mode === "master" ? { kdf: kdf ?? this.versionManager.kdfFor(v4.header) } : {})
+    };
+    const wrapAad = this.versionManager.buildWrapAad(fields);
+    const { ivWrap, wrappedKey } = await this.enc.wrapDek(dek, kek, wrapAad);
+
+    const header: PersistedConfigV5["header"] = {
+      ...fields,
+      ...(mode === "master" ? await this.keyChecksFor(kek, wrapAad) : {}),
+      iv: ivWrap,
+      wrappedKey
+    };
+    const { iv, ciphertext } = await this.enc.encryptData(dek, plain, this.versionManager.buildDataAad(header));
+    for (const k of Object.keys(plain)) (plain as Record<string, unknown>)[k] = null;
+
+    this.config = {
+      header: { ...header, ...(slots ? { slots } : {}) },
+      data: { iv, ciphertext }
+    };
+
+    this.dek = await this.enc.unwrapDek(ivWrap, wrappedKey, kek, false, wrapAad);
+    if (mode === "device") this.session.clear();
+
+    await this.persist();
+  }
+}
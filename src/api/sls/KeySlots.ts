@@ -0,0 +1,55 @@
+// KeySlots.ts
+import type { HeaderV3, HeaderV4, HeaderV5, KeySlot, KeySlotInfo, PersistedConfig } from "../../types";
+import { EncryptionManager } from "../../crypto/EncryptionManager";
+import { keyCheckValue } from "../../crypto/KeyCommitment";
+import { VersionManager } from "./VersionManager";
+
+export type KeySlotSpec = Omit<KeySlot, "iv" | "wrappedKey">;
+
+// Slot AAD is versioned on its own (KeySlot.v) so header migrations keep existing slots valid; new wraps use the latest.
+const SLOT_AAD_VERSION = 5;
+
+export const KeySlots = {
+  /** Key slots of a config (empty for device mode and v2). */
+  list: (config: PersistedConfig | null): KeySlot[] =>
+    (config?.header as HeaderV3 | HeaderV4 | HeaderV5 | undefined)?.slots ?? [],
+
+  /** Public listing: the primary password wrap first, then the additional slots. */
+  info: (config: PersistedConfig | null): KeySlotInfo[] => {
+    if (!config || config.header.rounds <= 1) return [];
+    const primary: KeySlotInfo = { id: "primary", kind: "password", primary: true };
+    return [
+      primary,
+      ...KeySlots.list(config).map(({ id, kind, label }) => ({
+        id,
+        kind,
+        ...(label !== undefined ? { label } : {}),
+        primary: false
+      }))
+    ];
+  },
+
+  /** Wrap an extractable DEK into a new slot with the key check value of `kek`; the AAD binds the storage key and every slot field. */
+  wrap: async (
+    enc: EncryptionManager,
+    versionManager: VersionManager,
+    dek: CryptoKey,
+    kek: CryptoKey,
+    spec: KeySlotSpec
+  ): Promise<KeySlot> => {
+    const fields = { ...spec, v: SLOT_AAD_VERSION, kcv: await keyCheckValue(kek) } as const;
+    const { ivWrap, wrappedKey } = await enc.wrapDek(dek, kek, versionManager.buildSlotAad(fields));
+    return { ...fields, iv: ivWrap, wrappedKey };
+  },
+
+  unwrap: (
+    enc: EncryptionManager,
+    versionManager: VersionManager,
+    config: PersistedConfig,
+    slot: KeySlot,
+    kek: CryptoKey,
+    forWrapping: boolean
+  ): Promise<CryptoKey> => {
+    return enc.unwrapDek(slot.iv, slot.wrappedKey, kek, forWrapping, versionManager.buildSlotAad(slot));
+  }
+};
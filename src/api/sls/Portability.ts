@@ -1,8 +1,9 @@
 // Portability.ts
 import { SLS_CONSTANTS } from "../../constants";
 import { ImportError } from "../../errors";
-import type { PersistedConfig, PersistedConfigV3 } from "../../types";
+import type { KdfDescriptor, PersistedConfig, PersistedConfigV5 } from "../../types";
 import { EncryptionManager } from "../../crypto/EncryptionManager";
+import { keyCheckValue, keyCommitment } from "../../crypto/KeyCommitment";
 import { VersionManager } from "./VersionManager";
 
 export type ExportSpec = {
@@ -10,7 +11,9 @@ export type ExportSpec = {
   kek: CryptoKey;              // the KEK to wrap DEK for this bundle
   saltB64: string;             // salt to embed in bundle header
   rounds: number;              // argon2 rounds to embed
+  kdf: KdfDescriptor;          // full KDF behind saltB64 (time === rounds)
   mPw: boolean;                // header.mPw
+  commit?: boolean;            // add a key-commitment tag (header.kc)
 };
 
 export const Portability = {
@@ -20,34 +23,31 @@ export const Portability = {
     spec: ExportSpec,
     plainDataObj: unknown
   ): Promise<string> => {
-    const ctx: PersistedConfigV3["header"]["ctx"] = "export";
-    const wrapAad = versionManager.buildWrapAad(ctx, SLS_CONSTANTS.MIGRATION_TARGET_VERSION);
+    const fields = {
+      v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION,
+      salt: spec.saltB64,
+      rounds: spec.rounds,
+      mPw: spec.mPw,
+      ctx: "export" as const,
+      kdf: spec.kdf
+    };
+    const wrapAad = versionManager.buildWrapAad(fields);
     const { ivWrap, wrappedKey } = await enc.wrapDek(spec.dek, spec.kek, wrapAad);
 
-    const dataAad = versionManager.buildDataAad(
-      ctx,
-      SLS_CONSTANTS.MIGRATION_TARGET_VERSION,
-      ivWrap,
+    const header: PersistedConfigV5["header"] = {
+      ...fields,
+      kcv: await keyCheckValue(spec.kek),
+      ...(spec.commit ? { kc: await keyCommitment(spec.kek, wrapAad) } : {}),
+      iv: ivWrap,
       wrappedKey
-    );
-    const { iv, ciphertext } = await enc.encryptData(spec.dek, plainDataObj, dataAad);
-
-    const bundle: PersistedConfigV3 = {
-      header: {
-        v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION,
-        salt: spec.saltB64,
-        rounds: spec.rounds,
-        iv: ivWrap,
-        wrappedKey,
-        mPw: spec.mPw,
-        ctx
-      },
-      data: { iv, ciphertext }
     };
+    const { iv, ciphertext } = await enc.encryptData(spec.dek, plainDataObj, versionManager.buildDataAad(header));
+
+    const bundle: PersistedConfigV5 = { header, data: { iv, ciphertext } };
     return JSON.stringify(bundle);
   },
 
-  parseAndClassify: (json: string, supported: readonly (2 | 3)[]) => {
+  parseAndClassify: (json: string, supported: readonly (2 | 3 | 4 | 5)[], minVersion = 0) => {
     const MAX_BUNDLE_CHARS = 15 * 1024 * 1024; // 2 MiB
     if (json.length > MAX_BUNDLE_CHARS) {
     throw new ImportError("Export payload too large");
@@ -58,9 +58,12 @@ export const Portability = {
       throw new ImportError("Invalid export structure");
     }
     const bundle = t as PersistedConfig;
-    if (!supported.includes((bundle.header.v as 2 | 3))) {
+    if (!supported.includes((bundle.header.v as 2 | 3 | 4 | 5))) {
       throw new ImportError(`Unsupported export version ${String((bundle as any).header?.v)}`);
     }
+    if (bundle.header.v < minVersion) {
+      throw new ImportError(`Export version ${bundle.header.v} is older than the minimum accepted version ${minVersion}`);
+    }
     const isMasterProtected =
       (bundle as any).header.mPw === true ||
       ((bundle.header as any).rounds > 1 && (bundle as any).header.mPw !== false);
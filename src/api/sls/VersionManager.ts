@@ -1,36 +1,61 @@
 import {
     PersistedConfig,
     PersistedConfigV2,
-    PersistedConfigV3
+    PersistedConfigV3,
+    PersistedConfigV4,
+    PersistedConfigV5,
+    KdfDescriptor,
+    KeySlot
   } from "../../types";
   import { SLS_CONSTANTS } from "../../constants";
   import { base64ToBytes } from "../../utils/base64";
   import { IdbConfig } from "../../crypto/DeviceKeyProvider";
   import { EncryptionManager } from "../../crypto/EncryptionManager";
-  import { deriveKekFromPassword } from "../../crypto/KeyDerivation";
+  import { deriveKekFromPassword, isKnownKdf, kdfProblem, legacyKdf } from "../../crypto/KeyDerivation";
+  import { canonicalJson } from "../../utils/json";
+
+  /** Header fields covered by the wrap AAD (v5 authenticates all of them; v3/v4 only `v` and `ctx`). */
+  export type AadHeader = {
+    v: number;
+    salt: string;
+    rounds: number;
+    mPw?: boolean;
+    ctx?: "store" | "export";
+    kdf?: KdfDescriptor;
+  };
 
   export class VersionManager {
+    /**
+     * Oldest envelope version {@link isValidConfig} accepts: the version this store was last written in
+     * (recorded next to the device KEK), or 3 when v2 is disabled. 0 accepts every supported version.
+     */
+    public minVersion = 0;
+
     constructor(
       public readonly storageKey: string,
       public readonly idbConfig: IdbConfig,
       private readonly enc: EncryptionManager
     ) {}
 
+    /**
+     * Oldest export version `importData` accepts. Only unbound v2 bundles are refused once {@link minVersion} is
+     * raised; v3 and later exports carry their own AAD binding and keep importing into any store.
+     */
+    public minImportVersion(): number {
+      return Math.min(this.minVersion, 3);
+    }
+
+    /** Supported versions at or above {@link minVersion}. */
+    public acceptedVersions(): (2 | 3 | 4 | 5)[] {
+      return SLS_CONSTANTS.SUPPORTED_VERSIONS.filter((v) => v >= this.minVersion);
+    }
+
     public getAadFor(
       type: "wrap" | "data",
       config: PersistedConfig | null
     ): Uint8Array | undefined {
-      if (config && this.isV3(config)) {
-        const ctx = config.header.ctx ?? "store";
-        if (type === "wrap") {
-          return this.buildWrapAad(ctx, config.header.v);
-        }
-        return this.buildDataAad(
-          ctx,
-          config.header.v,
-          config.header.iv,
-          config.header.wrappedKey
-        );
+      if (config && !this.isV2(config)) {
+        return type === "wrap" ? this.buildWrapAad(config.header) : this.buildDataAad(config.header);
       }
       return undefined;
     }
@@ -43,12 +68,30 @@ import {
       return (config.header as any).v === 2;
     }
 
+    public isV4(config: PersistedConfig): config is PersistedConfigV4 {
+      return (config.header as any).v === 4;
+    }
+
+    public isV5(config: PersistedConfig): config is PersistedConfigV5 {
+      return (config.header as any).v === 5;
+    }
+
+    /** Whether `config` is already at {@link SLS_CONSTANTS.MIGRATION_TARGET_VERSION}. */
+    public isLatest(config: PersistedConfig): boolean {
+      return (config.header as any).v === SLS_CONSTANTS.MIGRATION_TARGET_VERSION;
+    }
+
+    /** KDF behind a password wrap (header or key slot): its v4 descriptor, else the legacy parameters for `rounds`. */
+    public kdfFor(source: { rounds: number; kdf?: KdfDescriptor }): KdfDescriptor {
+      return source.kdf ?? legacyKdf(source.rounds);
+    }
+
     public isValidConfig(config: PersistedConfig | null): config is PersistedConfig {
       if (!config) return false;
       const h = config.header as any;
       const d = config.data as any;
 
-      if (!SLS_CONSTANTS.SUPPORTED_VERSIONS.includes(h.v)) return false;
+      if (!this.acceptedVersions().includes(h.v)) return false;
       if (typeof h.rounds !== "number" || h.rounds < 1) return false;
       if (typeof h.iv !== "string" || typeof h.wrappedKey !== "string")
         return false;
@@ -61,36 +104,101 @@ import {
         if (typeof h.salt !== "string" || h.salt.length === 0) return false;
       }
 
-      if (h.v === 3 && h.ctx && h.ctx !== "store") return false;
+      if (h.v >= 3 && h.ctx && h.ctx !== "store") return false;
+      if (h.v >= 4 && h.rounds > 1) {
+        if (!this.isValidKdf(h.kdf, h.rounds)) return false;
+      } else if (h.kdf !== undefined) {
+        return false;
+      }
+      if (h.slots !== undefined && !this.isValidSlotList(h.slots, h.rounds)) return false;
+      if (h.rev !== undefined && (h.v < 5 || !Number.isSafeInteger(h.rev) || h.rev < 1)) return false;
+      if (h.kc !== undefined && (h.v < 5 || h.rounds <= 1 || typeof h.kc !== "string")) return false;
+      if (h.kcv !== undefined && (h.v < 5 || h.rounds <= 1 || typeof h.kcv !== "string")) return false;
 
       try {
         base64ToBytes(h.iv);
         base64ToBytes(h.wrappedKey);
         if (d.iv) base64ToBytes(d.iv);
         if (d.ciphertext) base64ToBytes(d.ciphertext);
+        if (h.kc !== undefined) base64ToBytes(h.kc);
+        if (h.kcv !== undefined) base64ToBytes(h.kcv);
       } catch {
         return false;
       }
       return true;
     }
 
-    public buildWrapAad(
-      ctx: "store" | "export",
-      version: number
-    ): Uint8Array {
-      const root = ctx === "store" ? this.storageKey : "export";
-      const s = `sls|wrap|v${version}|${root}`;
-      return new TextEncoder().encode(s);
+    /** Slot AAD: storage key, id and kind (v3 slots), or every slot field but the wrap itself (`v: 5`). */
+    public buildSlotAad(slot: Omit<KeySlot, "iv" | "wrappedKey">): Uint8Array {
+      if (slot.v === undefined) {
+        return new TextEncoder().encode(`sls|slot|v3|${this.storageKey}|${slot.id}|${slot.kind}`);
+      }
+      const { iv: _iv, wrappedKey: _wrappedKey, ...fields } = slot as KeySlot;
+      return new TextEncoder().encode(`sls|slot|v${slot.v}|${this.storageKey}|${canonicalJson(fields)}`);
+    }
+
+    /** Wrap AAD for a header about to be (or already) written; extra fields such as `iv`, `rev`, `kc`, `kcv` or `slots` are ignored. */
+    public buildWrapAad(header: AadHeader): Uint8Array {
+      const root = (header.ctx ?? "store") === "store" ? this.storageKey : "export";
+      if (header.v < 5) {
+        return new TextEncoder().encode(`sls|wrap|v${header.v}|${root}`);
+      }
+      const { iv: _iv, wrappedKey: _wrappedKey, slots: _slots, rev: _rev, kc: _kc, kcv: _kcv, ...fields } = header as AadHeader & Partial<PersistedConfigV5["header"]>;
+      return new TextEncoder().encode(`sls|wrap|v${header.v}|${root}|${canonicalJson(fields)}`);
+    }
+
+    /** Data AAD: the wrap AAD fields plus the primary wrap (`iv`, `wrappedKey`) and `rev`, which key slots never change. */
+    public buildDataAad(header: AadHeader & { iv: string; wrappedKey: string }): Uint8Array {
+      const root = (header.ctx ?? "store") === "store" ? this.storageKey : "export";
+      if (header.v < 5) {
+        return new TextEncoder().encode(`sls|data|v${header.v}|${root}|${header.iv}|${header.wrappedKey}`);
+      }
+      const { slots: _slots, ...fields } = header as AadHeader & Partial<PersistedConfigV5["header"]>;
+      return new TextEncoder().encode(`sls|data|v${header.v}|${root}|${canonicalJson(fields)}`);
+    }
+  
+    // An unknown algorithm (written by a newer version) is kept, so unlock can report KdfUnavailableError instead of a reset.
+    private isValidKdf(kdf: any, rounds: number): boolean {
+      if (!kdf || typeof kdf !== "object" || typeof kdf.alg !== "string" || kdf.time !== rounds) return false;
+      return !isKnownKdf(kdf.alg) || kdfProblem(kdf) === null;
     }
 
-    public buildDataAad(
-      ctx: "store" | "export",
-      version: number,
-      ivWrap: string,
-      wrappedKey: string
-    ): Uint8Array {
-      const root = ctx === "store" ? this.storageKey : "export";
-      const s = `sls|data|v${version}|${root}|${ivWrap}|${wrappedKey}`;
-      return new TextEncoder().encode(s);
+    private isValidSlotList(slots: unknown, primaryRounds: number): boolean {
+      // Key slots only exist next to a password-protected primary wrap.
+      if (!Array.isArray(slots) || primaryRounds <= 1) return false;
+      const ids = new Set<string>();
+      for (const slot of slots as any[]) {
+        if (!slot || typeof slot.id !== "string" || slot.id.length === 0 || ids.has(slot.id)) return false;
+        ids.add(slot.id);
+        if (slot.kind === "password") {
+          if (typeof slot.salt !== "string" || slot.salt.length === 0) return false;
+          if (!Number.isInteger(slot.rounds) || slot.rounds <= 1) return false;
+          if (slot.kdf !== undefined && !this.isValidKdf(slot.kdf, slot.rounds)) return false;
+        } else if (slot.kind === "device") {
+          if (slot.salt !== "" || slot.rounds !== 1) return false;
+        } else if (slot.kind === "recovery") {
+          if (typeof slot.salt !== "string" || slot.salt.length === 0 || slot.rounds !== 1) return false;
+        } else if (slot.kind === "passkey") {
+          if (typeof slot.salt !== "string" || slot.salt.length === 0 || slot.rounds !== 1) return false;
+          if (typeof slot.credentialId !== "string" || slot.credentialId.length === 0) return false;
+        } else {
+          return false;
+        }
+        if (slot.kind !== "password" && slot.kdf !== undefined) return false;
+        if (slot.v !== undefined && slot.v !== 5) return false;
+        if (slot.label !== undefined && typeof slot.label !== "string") return false;
+        if (slot.kcv !== undefined && (slot.v !== 5 || typeof slot.kcv !== "string")) return false;
+        if (typeof slot.iv !== "string" || typeof slot.wrappedKey !== "string") return false;
+        try {
+          base64ToBytes(slot.iv);
+          base64ToBytes(slot.wrappedKey);
+          if (slot.salt) base64ToBytes(slot.salt);
+          if (slot.credentialId !== undefined) base64ToBytes(slot.credentialId);
+          if (slot.kcv !== undefined) base64ToBytes(slot.kcv);
+        } catch {
+          return false;
+        }
+      }
+      return true;
     }
-  }
\ No newline at end of file
+  }
@@ -1,16 +1,18 @@
 import type { SecureLocalStorage } from "../SecureLocalStorageStates";
+import type { KdfOptions, RotateKeysOptions, UnlockOptions } from "../../types";
 
 export abstract class State {
   constructor(protected context: SecureLocalStorage) {}
 
   abstract isUsingMasterPassword(): boolean;
   abstract isLocked(): boolean;
-  abstract unlock(masterPassword: string): Promise<void>;
-  abstract setMasterPassword(masterPassword: string): Promise<void>;
+  abstract unlock(masterPassword: string, opts?: UnlockOptions): Promise<void>;
+  abstract unlockWithPasskey(): Promise<void>;
+  abstract setMasterPassword(masterPassword: string, kdf?: KdfOptions): Promise<void>;
   abstract removeMasterPassword(): Promise<void>;
-  abstract rotateMasterPassword(oldMasterPassword: string, newMasterPassword: string): Promise<void>;
+  abstract rotateMasterPassword(oldMasterPassword: string, newMasterPassword: string, kdf?: KdfOptions): Promise<void>;
   abstract lock(): void;
-  abstract rotateKeys(): Promise<void>;
+  abstract rotateKeys(opts?: RotateKeysOptions): Promise<void>;
   abstract getData<T extends Record<string, unknown>>(): Promise<any>;
   abstract setData<T extends Record<string, unknown>>(value: T): Promise<void>;
   abstract exportData(customExportPassword?: string): Promise<string>;
@@ -1,11 +1,12 @@
 import { State } from "./BaseState";
 import { MasterPasswordState } from "./MasterPasswordState";
-import { ModeError, ValidationError } from "../../errors";
+import { ModeError, NotSupportedError, ValidationError } from "../../errors";
 import { SLS_CONSTANTS } from "../../constants";
 import { base64ToBytes } from "../../utils/base64";
+import { kdfFromOptions } from "../../crypto/KeyDerivation";
 import { toPlainJson } from "../../utils/json";
 import { makeSecureDataView, SecureDataView } from "../../utils/secureDataView";
-import type { PersistedConfigV3 } from "../../types";
+import type { KdfOptions, PersistedConfigV5 } from "../../types";
 import { InitialState } from "./InitialState";
 import { ExportSpec, Portability } from "../sls/Portability";
 import { ExportError } from "../../errors";
@@ -23,44 +24,45 @@ export class DeviceModeState extends State {
     // No-op in device mode
   }
 
-  async setMasterPassword(masterPassword: string): Promise<void> {
+  async unlockWithPasskey(): Promise<void> {
+    // No-op in device mode
+  }
+
+  async setMasterPassword(masterPassword: string, kdfOptions?: KdfOptions): Promise<void> {
     this.context.requireConfig();
     const pw = typeof masterPassword === "string" ? masterPassword.trim() : "";
     if (pw.length === 0) {
       throw new ValidationError("masterPassword must be a non-empty string");
     }
+    const kdf = kdfOptions !== undefined ? kdfFromOptions(kdfOptions) : this.context.kdf;
 
-    const deviceKek = await this.context.deviceKeyProvider.getKey(this.context.idbConfig);
+    const deviceKek = await this.context.kekProvider.getKey();
     await this.context.unwrapDekWithKek(deviceKek, true, this.context.versionManager.getAadFor("wrap", this.context.config!));
 
     const plain = await this.context.decryptCurrentData();
 
     const saltB64 = this.context.enc.generateSaltB64();
-    const rounds = SLS_CONSTANTS.ARGON2.ITERATIONS;
-    const kek = await this.context.deriveKekFromPassword(masterPassword, base64ToBytes(saltB64), rounds);
+    const rounds = kdf.time;
+    const kek = await this.context.deriveKekFromPassword(masterPassword, base64ToBytes(saltB64), kdf);
 
-    const ctx: PersistedConfigV3["header"]["ctx"] = "store";
-    const wrapAad = this.context.versionManager.buildWrapAad(ctx, SLS_CONSTANTS.MIGRATION_TARGET_VERSION);
+    const fields = { v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION, salt: saltB64, rounds, ctx: "store" as const, kdf };
+    const wrapAad = this.context.versionManager.buildWrapAad(fields);
     const wrapped = await this.context.enc.wrapDek(this.context.dek!, kek, wrapAad);
 
-    const dataAad = this.context.versionManager.buildDataAad(ctx, SLS_CONSTANTS.MIGRATION_TARGET_VERSION, wrapped.ivWrap, wrapped.wrappedKey);
+    const header: PersistedConfigV5["header"] = {
+      ...fields,
+      ...(await this.context.keyChecksFor(kek, wrapAad)),
+      iv: wrapped.ivWrap,
+      wrappedKey: wrapped.wrappedKey
+    };
+    const dataAad = this.context.versionManager.buildDataAad(header);
     const { iv, ciphertext } = await this.context.enc.encryptData(this.context.dek!, plain, dataAad);
 
-    this.context.config = {
-      header: {
-        v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION,
-        salt: saltB64,
-        rounds,
-        iv: wrapped.ivWrap,
-        wrappedKey: wrapped.wrappedKey,
-        ctx
-      },
-      data: { iv, ciphertext }
-    };
+    this.context.config = { header, data: { iv, ciphertext } };
 
     this.context.session.set(kek, saltB64, rounds);
     this.context.dek = await this.context.enc.unwrapDek(wrapped.ivWrap, wrapped.wrappedKey, kek, false, wrapAad);
-    this.context.persist();
+    await this.context.persist();
     this.transitionTo(new MasterPasswordState(this.context));
   }
 
@@ -68,12 +70,12 @@ export class DeviceModeState extends State {
     throw new ModeError("No master password is set");
   }
 
-  async rotateMasterPassword(oldMasterPassword: string, newMasterPassword: string): Promise<void> {
+  async rotateMasterPassword(oldMasterPassword: string, newMasterPassword: string, kdf?: KdfOptions): Promise<void> {
     const newPw = typeof newMasterPassword === "string" ? newMasterPassword.trim() : "";
     if (newPw.length === 0) {
       throw new ValidationError("newMasterPassword must be a non-empty string");
     }
-    await this.setMasterPassword(newMasterPassword);
+    await this.setMasterPassword(newMasterPassword, kdf);
   }
 
   lock(): void {
@@ -82,36 +84,42 @@ export class DeviceModeState extends State {
 
   async rotateKeys(): Promise<void> {
     this.context.requireConfig();
-    const deviceKek = await this.context.deviceKeyProvider.getKey(this.context.idbConfig);
+    const provider = this.context.kekProvider;
+    if (!provider.stageKey || !provider.commitPendingKey) {
+      throw new NotSupportedError("The configured KEK provider does not support rotateKeys()");
+    }
+    const deviceKek = await provider.getKey();
 
     await this.context.unwrapDekWithKek(deviceKek, false, this.context.versionManager.getAadFor("wrap", this.context.config!));
     const plain = await this.context.decryptCurrentData();
 
     const newDek = await this.context.enc.createDek();
 
-    const newDeviceKek = await this.context.deviceKeyProvider.rotateKey(this.context.idbConfig);
-    const ctx: PersistedConfigV3["header"]["ctx"] = "store";
-    const wrapAad = this.context.versionManager.buildWrapAad(ctx, SLS_CONSTANTS.MIGRATION_TARGET_VERSION);
+    // Stage the new KEK next to the current one; it only replaces it once the re-wrapped envelope is persisted.
+    const newDeviceKek = await provider.stageKey();
+    const fields = { v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION, salt: "", rounds: 1, ctx: "store" as const };
+    const wrapAad = this.context.versionManager.buildWrapAad(fields);
     const { ivWrap, wrappedKey } = await this.context.enc.wrapDek(newDek, newDeviceKek, wrapAad);
 
-    const dataAad = this.context.versionManager.buildDataAad(ctx, SLS_CONSTANTS.MIGRATION_TARGET_VERSION, ivWrap, wrappedKey);
+    const header: PersistedConfigV5["header"] = { ...fields, iv: ivWrap, wrappedKey };
+    const dataAad = this.context.versionManager.buildDataAad(header);
     const { iv, ciphertext } = await this.context.enc.encryptData(newDek, plain, dataAad);
 
-    this.context.config = {
-      header: {
-        v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION,
-        salt: "",
-        rounds: 1,
-        iv: ivWrap,
-        wrappedKey,
-        ctx
-      },
-      data: { iv, ciphertext }
-    };
+    const previousConfig = this.context.config;
+    const previousDek = this.context.dek;
+    this.context.config = { header, data: { iv, ciphertext } };
 
     this.context.dek = await this.context.enc.unwrapDek(ivWrap, wrappedKey, newDeviceKek, false, wrapAad);
     for (const k of Object.keys(plain)) (plain as Record<string, unknown>)[k] = null;
-    this.context.persist();
+    try {
+      await this.context.persist();
+    } catch (e) {
+      // Keep the pending KEK: a journal roll-forward may still commit the new envelope on next start.
+      this.context.config = previousConfig;
+      this.context.dek = previousDek;
+      throw e;
+    }
+    await provider.commitPendingKey();
   }
 
   async getData<T extends Record<string, unknown>>(): Promise<SecureDataView<T>> {
@@ -144,11 +152,7 @@ export class DeviceModeState extends State {
       throw new ValidationError("Data must be a plain object");
     }
 
-    const plain = toPlainJson(value);
-    const dataAad = this.context.versionManager.getAadFor("data", this.context.config);
-    const { iv, ciphertext } = await this.context.enc.encryptData(this.context.dek!, plain, dataAad);
-    this.context.config!.data = { iv, ciphertext };
-    this.context.persist();
+    await this.context.persist(this.context.dek, toPlainJson(value));
   }
 
   async exportData(customExportPassword?: string): Promise<string> {
@@ -162,21 +166,29 @@ export class DeviceModeState extends State {
     const plain = await this.context.decryptCurrentData();
 
     // Make DEK extractable for wrapping
-    const deviceKek = await this.context.deviceKeyProvider.getKey(this.context.idbConfig);
+    const deviceKek = await this.context.kekProvider.getKey();
     await this.context.unwrapDekWithKek(
       deviceKek,
       true,
       this.context.versionManager.getAadFor("wrap", this.context.config)
     );
     const saltB64 = this.context.enc.generateSaltB64();
-    const rounds = SLS_CONSTANTS.ARGON2.ITERATIONS;
+    const kdf = this.context.kdf;
     const kek = await this.context.deriveKekFromPassword(
       customExportPassword,
       base64ToBytes(saltB64),
-      rounds
+      kdf
     );
 
-    const spec: ExportSpec = { dek: this.context.dek!, kek, saltB64, rounds, mPw: false };
+    const spec: ExportSpec = {
+      dek: this.context.dek!,
+      kek,
+      saltB64,
+      rounds: kdf.time,
+      kdf,
+      mPw: false,
+      commit: this.context.keyCommitment
+    };
     return Portability.buildExportBundle(this.context.enc, this.context.versionManager, spec, plain);
   }
 
@@ -187,8 +199,8 @@ export class DeviceModeState extends State {
     return (async () => {
       this.context.session.clear();
       this.context.dek = null;
-      this.context.store.clear();
-      await this.context.deviceKeyProvider.deletePersistent(this.context.idbConfig);
+      await this.context.store.clear();
+      await this.context.kekProvider.deletePersistent();
       await new InitialState(this.context).initialize(true);
     })();
   }
@@ -1,8 +1,10 @@
 import { State } from "./BaseState";
 import { DeviceModeState } from "./DeviceModeState";
 import { LockedState } from "./LockedState";
-import type { PersistedConfigV3 } from "../../types";
+import { MasterPasswordState } from "./MasterPasswordState";
+import type { PersistedConfigV5, ResetReason } from "../../types";
 import { SLS_CONSTANTS } from "../../constants";
+import { CorruptConfigError, CryptoError, DeviceKeyMismatchError, RollbackDetectedError, ValidationError } from "../../errors";
 
 export class InitialState extends State {
   async initialize(forceFresh = false): Promise<void> {
@@ -11,64 +13,117 @@ export class InitialState extends State {
       return;
     }
 
-    const existing = this.context.store.get();
+    await this.context.loadMinVersion();
+
+    if (this.context.store.recover) {
+      this.context.lastJournalRecovery = await this.context.store.recover(
+        (cfg) => this.context.versionManager.isValidConfig(cfg)
+      );
+    }
+
+    const existing = await this.context.store.get();
     if (!this.context.versionManager.isValidConfig(existing)) {
-      this.context.lastResetReason = "invalid-config";
-      await this.createNewStore();
+      await this.resetStore("invalid-config");
       return;
     }
 
+    try {
+      await this.context.checkRevision(existing);
+    } catch (e) {
+      if (!(e instanceof RollbackDetectedError)) throw e;
+      await this.resetStore("rollback-detected", e);
+      return;
+    }
     this.context.config = existing;
 
     if ((this.context.config?.header.rounds ?? 1) > 1) {
-      this.transitionTo(new LockedState(this.context));
+      // A device key slot opens the store on this device without the password.
+      const opened = await this.context.openWithDeviceSlot();
+      if (opened && !(await this.revisionAuthentic())) return;
+      this.transitionTo(opened ? new MasterPasswordState(this.context) : new LockedState(this.context));
     } else {
-      const deviceKek = await this.context.deviceKeyProvider.getKey(this.context.idbConfig);
+      let deviceKek: CryptoKey;
       try {
-        await this.context.unwrapDekWithKek(deviceKek, false, this.context.versionManager.getAadFor("wrap", existing));
-
-        if (this.context.versionManager.isV2(existing)) {
-          await this.context.migrateV2ToV3("device", existing, deviceKek);
+        deviceKek = await this.context.resolveDeviceKek(existing);
+      } catch {
+        await this.resetStore("device-kek-mismatch");
+        return;
+      }
+      if (!(await this.revisionAuthentic())) return;
+      try {
+        if (!this.context.versionManager.isLatest(existing)) {
+          await this.context.migrateToLatest("device", deviceKek);
         }
         this.transitionTo(new DeviceModeState(this.context));
-      } catch {
-        this.context.lastResetReason = "device-kek-mismatch";
-        await this.createNewStore();
+      } catch (e) {
+        // Only an envelope the device KEK cannot read is replaced; a failed write leaves the old one in place.
+        if (!(e instanceof CryptoError || e instanceof ValidationError)) {
+          this.context.config = null;
+          this.context.dek = null;
+          throw e;
+        }
+        await this.resetStore("device-kek-mismatch");
       }
     }
   }
 
+  /** Authenticate the loaded revision with the unwrapped DEK; a forged `rev` resets the store like a replay. */
+  private async revisionAuthentic(): Promise<boolean> {
+    try {
+      await this.context.authenticateRevision(this.context.dek!);
+      return true;
+    } catch (e) {
+      if (!(e instanceof RollbackDetectedError)) throw e;
+      this.context.session.clear();
+      await this.resetStore("rollback-detected", e);
+      return false;
+    }
+  }
+
+  /**
+   * Replace an unreadable store with a fresh one. With the `quarantine` option the current envelope is first
+   * moved to the quarantine list; if that fails, initialization fails instead of destroying it.
+   * With the `strict` option nothing is touched and initialization fails with a typed error (`cause` when given).
+   */
+  private async resetStore(reason: ResetReason, cause?: Error): Promise<void> {
+    if (this.context.strict) {
+      this.context.config = null;
+      this.context.dek = null;
+      throw cause ?? (reason === "invalid-config" ? new CorruptConfigError() : new DeviceKeyMismatchError());
+    }
+    this.context.lastResetReason = reason;
+    if (this.context.quarantineOnReset) {
+      const raw = await this.context.store.getRaw();
+      if (raw !== null) await this.context.quarantine.add(reason, raw);
+    }
+    this.context.config = null;
+    this.context.dek = null;
+    await this.createNewStore();
+  }
+
   private async createNewStore(): Promise<void> {
     const dek = await this.context.enc.createDek();
-    const deviceKek = await this.context.deviceKeyProvider.getKey(this.context.idbConfig);
+    const deviceKek = await this.context.kekProvider.getKey();
 
-    const ctx: PersistedConfigV3["header"]["ctx"] = "store";
-    const wrapAad = this.context.versionManager.buildWrapAad(ctx, SLS_CONSTANTS.MIGRATION_TARGET_VERSION);
+    const fields = { v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION, salt: "", rounds: 1, ctx: "store" as const };
+    const wrapAad = this.context.versionManager.buildWrapAad(fields);
     const { ivWrap, wrappedKey } = await this.context.enc.wrapDek(dek, deviceKek, wrapAad);
     const unwrappedDek = await this.context.enc.unwrapDek(ivWrap, wrappedKey, deviceKek, false, wrapAad);
 
-    const dataAad = this.context.versionManager.buildDataAad(ctx, SLS_CONSTANTS.MIGRATION_TARGET_VERSION, ivWrap, wrappedKey);
+    const header: PersistedConfigV5["header"] = { ...fields, iv: ivWrap, wrappedKey };
+    const dataAad = this.context.versionManager.buildDataAad(header);
     const { iv, ciphertext } = await this.context.enc.encryptData(unwrappedDek, {}, dataAad);
 
-    this.context.config = {
-      header: {
-        v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION,
-        salt: "",
-        rounds: 1,
-        iv: ivWrap,
-        wrappedKey,
-        ctx
-      },
-      data: { iv, ciphertext }
-    };
+    this.context.config = { header, data: { iv, ciphertext } };
     this.context.dek = unwrappedDek;
-    this.context.persist();
+    await this.context.persist();
     this.transitionTo(new DeviceModeState(this.context));
   }
 
   isUsingMasterPassword(): boolean { throw new Error("Not initialized"); }
   isLocked(): boolean { throw new Error("Not initialized"); }
   unlock(masterPassword: string): Promise<void> { throw new Error("Not initialized"); }
+  unlockWithPasskey(): Promise<void> { throw new Error("Not initialized"); }
   setMasterPassword(masterPassword: string): Promise<void> { throw new Error("Not initialized"); }
   removeMasterPassword(): Promise<void> { throw new Error("Not initialized"); }
   rotateMasterPassword(oldMasterPassword: string, newMasterPassword: string): Promise<void> { throw new Error("Not initialized"); }
@@ -81,8 +136,8 @@ export class InitialState extends State {
   async clear(): Promise<void> {
     this.context.session.clear();
     this.context.dek = null;
-    this.context.store.clear();
-    await this.context.deviceKeyProvider.deletePersistent(this.context.idbConfig);
+    await this.context.store.clear();
+    await this.context.kekProvider.deletePersistent();
     await this.initialize(true);
   }
 }
\ No newline at end of file
@@ -1,8 +1,8 @@
 import { State } from "./BaseState";
 import { MasterPasswordState } from "./MasterPasswordState";
 import { InitialState } from "./InitialState";
-import { ValidationError, LockedError } from "../../errors";
-import { base64ToBytes } from "../../utils/base64";
+import { InvalidPasswordError, ValidationError, LockedError } from "../../errors";
+import type { KdfOptions, UnlockOptions } from "../../types";
 
 export class LockedState extends State {
   isUsingMasterPassword(): boolean {
@@ -13,28 +13,40 @@ export class LockedState extends State {
     return true;
   }
 
-  async unlock(masterPassword: string): Promise<void> {
+  async unlock(masterPassword: string, opts?: UnlockOptions): Promise<void> {
     if (!this.context.config) return;
 
     if (typeof masterPassword !== "string" || masterPassword.trim().length === 0) {
       throw new ValidationError("masterPassword must be a non-empty string");
     }
 
-    const { salt, rounds } = this.context.config.header;
-    const kek = await this.context.deriveKekFromPassword(masterPassword, base64ToBytes(salt), rounds);
-
-    try {
-      this.context.session.set(kek, salt, rounds);
-      await this.context.unwrapDekWithKek(kek, false, this.context.versionManager.getAadFor("wrap", this.context.config));
-    } catch {
+    // Primary password first, then any password key slot.
+    const opened = await this.context.openWithPassword(masterPassword, opts);
+    if (!opened) {
       this.context.session.clear();
-      throw new ValidationError("Invalid master password");
+      throw new InvalidPasswordError();
     }
+    await this.context.authenticateRevision(opened.dek);
+    this.context.dek = opened.dek;
+    this.context.session.set(opened.kek, opened.salt, opened.rounds, opened.slotId);
 
-    if (this.context.versionManager.isV2(this.context.config)) {
-      await this.context.migrateV2ToV3("master", this.context.config, kek);
+    // Migration re-wraps the primary, so it waits for an unlock with the primary password.
+    if (opened.slotId === null && !this.context.versionManager.isLatest(this.context.config)) {
+      await this.context.migrateToLatest("master", opened.kek);
     }
     this.transitionTo(new MasterPasswordState(this.context));
+    this.context.scheduleKdfUpgrade(masterPassword, opened);
+  }
+
+  async unlockWithPasskey(): Promise<void> {
+    if (!this.context.config) return;
+
+    const opened = await this.context.openWithPasskey();
+    if (!opened) throw new ValidationError("Passkey does not unlock this store");
+    await this.context.authenticateRevision(opened.dek);
+    this.context.dek = opened.dek;
+    this.context.session.set(opened.kek, opened.salt, opened.rounds, opened.slotId);
+    this.transitionTo(new MasterPasswordState(this.context));
   }
 
   async setMasterPassword(masterPassword: string): Promise<void> {
@@ -45,10 +57,10 @@ export class LockedState extends State {
     throw new LockedError();
   }
 
-  async rotateMasterPassword(oldMasterPassword: string, newMasterPassword: string): Promise<void> {
+  async rotateMasterPassword(oldMasterPassword: string, newMasterPassword: string, kdf?: KdfOptions): Promise<void> {
     await this.unlock(oldMasterPassword);
     // The state will be changed to MasterPasswordState, so we can call rotateMasterPassword on it
-    await this.context.rotateMasterPassword(oldMasterPassword, newMasterPassword);
+    await this.context.rotateMasterPassword(oldMasterPassword, newMasterPassword, kdf);
   }
 
   lock(): void {
@@ -78,8 +90,8 @@ export class LockedState extends State {
     return (async () => {
       this.context.session.clear();
       this.context.dek = null;
-      this.context.store.clear();
-      await this.context.deviceKeyProvider.deletePersistent(this.context.idbConfig);
+      await this.context.store.clear();
+      await this.context.kekProvider.deletePersistent();
       await new InitialState(this.context).initialize(true);
     })();
   }
@@ -2,13 +2,15 @@ import { State } from "./BaseState";
 import { DeviceModeState } from "./DeviceModeState";
 import { LockedState } from "./LockedState";
 import { InitialState } from "./InitialState";
-import { ExportError, ModeError, ValidationError } from "../../errors";
+import { CorruptDataError, ExportError, InvalidPasswordError, KeyCommitmentError, ModeError, ValidationError } from "../../errors";
 import { SLS_CONSTANTS } from "../../constants";
 import { base64ToBytes } from "../../utils/base64";
+import { kdfFromOptions } from "../../crypto/KeyDerivation";
 import { toPlainJson } from "../../utils/json";
 import { makeSecureDataView, SecureDataView } from "../../utils/secureDataView";
-import type { PersistedConfigV3 } from "../../types";
+import type { HeaderV5, KdfOptions, KeySlot, PersistedConfigV5, RotateKeysOptions } from "../../types";
 import { ExportSpec, Portability } from "../sls/Portability";
+import { KeySlots } from "../sls/KeySlots";
 
 export class MasterPasswordState extends State {
   isUsingMasterPassword(): boolean {
@@ -23,6 +25,10 @@ export class MasterPasswordState extends State {
     // No-op, already unlocked
   }
 
+  async unlockWithPasskey(): Promise<void> {
+    // No-op, already unlocked
+  }
+
   async setMasterPassword(masterPassword: string): Promise<void> {
     throw new ModeError("Master password already set; use rotateMasterPassword()");
   }
@@ -31,102 +37,83 @@ export class MasterPasswordState extends State {
     this.context.requireConfig();
     this.context.requireUnlocked();
 
-    await this.context.unwrapDekWithKek(this.context.sessionKekOrThrow(), true, this.context.versionManager.getAadFor("wrap", this.context.config!));
+    await this.context.unwrapDekWithSession(true);
 
     const plain = await this.context.decryptCurrentData();
 
-    const deviceKek = await this.context.deviceKeyProvider.getKey(this.context.idbConfig);
+    // Device mode has no key slots; they are dropped with the password.
+    const deviceKek = await this.context.kekProvider.getKey();
 
-    const ctx: PersistedConfigV3["header"]["ctx"] = "store";
-    const wrapAad = this.context.versionManager.buildWrapAad(ctx, SLS_CONSTANTS.MIGRATION_TARGET_VERSION);
+    const fields = { v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION, salt: "", rounds: 1, ctx: "store" as const };
+    const wrapAad = this.context.versionManager.buildWrapAad(fields);
     const { ivWrap, wrappedKey } = await this.context.enc.wrapDek(this.context.dek!, deviceKek, wrapAad);
 
-    const dataAad = this.context.versionManager.buildDataAad(ctx, SLS_CONSTANTS.MIGRATION_TARGET_VERSION, ivWrap, wrappedKey);
+    const header: PersistedConfigV5["header"] = { ...fields, iv: ivWrap, wrappedKey };
+    const dataAad = this.context.versionManager.buildDataAad(header);
     const { iv, ciphertext } = await this.context.enc.encryptData(this.context.dek!, plain, dataAad);
 
-    this.context.config = {
-      header: {
-        v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION,
-        salt: "",
-        rounds: 1,
-        iv: ivWrap,
-        wrappedKey,
-        ctx
-      },
-      data: { iv, ciphertext }
-    };
+    this.context.config = { header, data: { iv, ciphertext } };
 
     this.context.dek = await this.context.enc.unwrapDek(ivWrap, wrappedKey, deviceKek, false, wrapAad);
     this.context.session.clear();
-    this.context.persist();
+    await this.context.persist();
     this.transitionTo(new DeviceModeState(this.context));
   }
-  async rotateMasterPassword(oldMasterPassword: string, newMasterPassword: string): Promise<void> {
+  async rotateMasterPassword(oldMasterPassword: string, newMasterPassword: string, kdfOptions?: KdfOptions): Promise<void> {
     this.context.requireConfig();
 
     const newPw = typeof newMasterPassword === "string" ? newMasterPassword.trim() : "";
     if (newPw.length === 0) {
       throw new ValidationError("newMasterPassword must be a non-empty string");
     }
+    const kdf = kdfOptions !== undefined ? kdfFromOptions(kdfOptions) : this.context.kdf;
 
-    // Explicitly verify the old password against the current header using AAD.
-    const { salt, rounds, iv, wrappedKey } = this.context.config!.header as any;
+    // Explicitly verify the old password against the current header (primary wrap or a password slot) using AAD.
+    let verified = false;
     try {
-      const verifyKek = await this.context.deriveKekFromPassword(
-        oldMasterPassword,
-        base64ToBytes(salt),
-        rounds
-      );
-      const wrapAad = this.context.versionManager.getAadFor("wrap", this.context.config!);
-      await this.context.enc.unwrapDek(iv, wrappedKey, verifyKek, false, wrapAad);
-    } catch {
-      throw new ValidationError("Invalid master password");
+      verified = (await this.context.openWithPassword(oldMasterPassword)) !== null;
+    } catch (e) {
+      if (e instanceof CorruptDataError || e instanceof KeyCommitmentError) throw e;
+      verified = false;
     }
+    if (!verified) throw new InvalidPasswordError();
 
     // Proceed with rotation using the currently unlocked session KEK/DEK.
-    await this.context.unwrapDekWithKek(
-      this.context.sessionKekOrThrow(),
-      true,
-      this.context.versionManager.getAadFor("wrap", this.context.config!)
-    );
+    await this.context.unwrapDekWithSession(true);
     const plain = await this.context.decryptCurrentData();
 
     const saltB64 = this.context.enc.generateSaltB64();
-    const newRounds = SLS_CONSTANTS.ARGON2.ITERATIONS;
+    const newRounds = kdf.time;
     const newKek = await this.context.deriveKekFromPassword(
       newMasterPassword,
       base64ToBytes(saltB64),
-      newRounds
+      kdf
     );
 
-    const ctx: PersistedConfigV3["header"]["ctx"] = "store";
-    const wrapAad = this.context.versionManager.buildWrapAad(ctx, SLS_CONSTANTS.MIGRATION_TARGET_VERSION);
+    const fields = { v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION, salt: saltB64, rounds: newRounds, ctx: "store" as const, kdf };
+    const wrapAad = this.context.versionManager.buildWrapAad(fields);
     const { ivWrap, wrappedKey: newWrappedKey } = await this.context.enc.wrapDek(this.context.dek!, newKek, wrapAad);
 
-    const dataAad = this.context.versionManager.buildDataAad(
-      ctx,
-      SLS_CONSTANTS.MIGRATION_TARGET_VERSION,
-      ivWrap,
-      newWrappedKey
-    );
+    const header: PersistedConfigV5["header"] = {
+      ...fields,
+      ...(await this.context.keyChecksFor(newKek, wrapAad)),
+      iv: ivWrap,
+      wrappedKey: newWrappedKey
+    };
+    const dataAad = this.context.versionManager.buildDataAad(header);
     const { iv: dataIv, ciphertext } = await this.context.enc.encryptData(this.context.dek!, plain, dataAad);
 
+    // Key slots wrap the same DEK and are independent of the primary wrap, so they carry over.
+    const slots = KeySlots.list(this.context.config);
     this.context.config = {
-      header: {
-        v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION,
-        salt: saltB64,
-        rounds: newRounds,
-        iv: ivWrap,
-        wrappedKey: newWrappedKey,
-        ctx
-      },
+      header: { ...header, ...(slots.length > 0 ? { slots } : {}) },
       data: { iv: dataIv, ciphertext }
     };
 
     this.context.session.set(newKek, saltB64, newRounds);
     this.context.dek = await this.context.enc.unwrapDek(ivWrap, newWrappedKey, newKek, false, wrapAad);
 
-    this.context.persist();
+    await this.context.persist();
   }
 
   lock(): void {
@@ -135,8 +122,82 @@ export class MasterPasswordState extends State {
     this.transitionTo(new LockedState(this.context));
   }
 
-  async rotateKeys(): Promise<void> {
-    throw new ModeError("rotateKeys is allowed only in password-less mode");
+  async rotateKeys(opts?: RotateKeysOptions): Promise<void> {
+    this.context.requireConfig();
+    this.context.requireUnlocked();
+    const current = this.context.config!.header as HeaderV5;
+
+    // The primary wrap is redone with its own KEK: the session one, or one derived from the password with a new salt.
+    let kek: CryptoKey;
+    let saltB64: string;
+    let kdf = this.context.versionManager.kdfFor(current);
+    if (opts?.masterPassword !== undefined) {
+      if (typeof opts.masterPassword !== "string" || opts.masterPassword.trim().length === 0) {
+        throw new ValidationError("masterPassword must be a non-empty string");
+      }
+      const opened = await this.context.openWithPassword(opts.masterPassword);
+      if (!opened || opened.slotId !== null) throw new InvalidPasswordError();
+      saltB64 = this.context.enc.generateSaltB64();
+      kdf = this.context.kdf;
+      kek = await this.context.deriveKekFromPassword(opts.masterPassword, base64ToBytes(saltB64), kdf);
+    } else {
+      if (this.context.session.slotId() !== null) {
+        throw new ValidationError("rotateKeys() needs the master password when unlocked with a key slot");
+      }
+      kek = this.context.sessionKekOrThrow();
+      saltB64 = current.salt;
+    }
+
+    // Only device slots can be re-wrapped here; the others need secrets the session does not hold.
+    const slots = KeySlots.list(this.context.config);
+    const stranded = slots.filter((s) => s.kind !== "device");
+    if (stranded.length > 0 && !opts?.dropKeySlots) {
+      throw new ValidationError(
+        `${stranded.length} key slot(s) cannot be re-wrapped with a new DEK; remove them or pass dropKeySlots: true`
+      );
+    }
+
+    const plain = await this.context.decryptCurrentData();
+    const newDek = await this.context.enc.createDek();
+
+    const fields = { v: SLS_CONSTANTS.MIGRATION_TARGET_VERSION, salt: saltB64, rounds: kdf.time, ctx: "store" as const, kdf };
+    const wrapAad = this.context.versionManager.buildWrapAad(fields);
+    const { ivWrap, wrappedKey } = await this.context.enc.wrapDek(newDek, kek, wrapAad);
+
+    const header: PersistedConfigV5["header"] = {
+      ...fields,
+      ...(await this.context.keyChecksFor(kek, wrapAad)),
+      iv: ivWrap,
+      wrappedKey
+    };
+    const dataAad = this.context.versionManager.buildDataAad(header);
+    const { iv, ciphertext } = await this.context.enc.encryptData(newDek, plain, dataAad);
+    for (const k of Object.keys(plain)) (plain as Record<string, unknown>)[k] = null;
+
+    const rewrapped: KeySlot[] = [];
+    const deviceSlots = slots.filter((s) => s.kind === "device");
+    if (deviceSlots.length > 0) {
+      const deviceKek = await this.context.kekProvider.getKey();
+      for (const { iv: _iv, wrappedKey: _wk, ...spec } of deviceSlots) {
+        rewrapped.push(await KeySlots.wrap(this.context.enc, this.context.versionManager, newDek, deviceKek, spec));
+      }
+    }
+
+    const previousConfig = this.context.config;
+    const previousDek = this.context.dek;
+    this.context.config = {
+      header: { ...header, ...(rewrapped.length > 0 ? { slots: rewrapped } : {}) },
+      data: { iv, ciphertext }
+    };
+    this.context.dek = await this.context.enc.unwrapDek(ivWrap, wrappedKey, kek, false, wrapAad);
+    try {
+      await this.context.persist();
+    } catch (e) {
+      this.context.config = previousConfig;
+      this.context.dek = previousDek;
+      throw e;
+    }
+    this.context.session.set(kek, saltB64, kdf.time);
   }
 
   async getData<T extends Record<string, unknown>>(): Promise<SecureDataView<T>> {
@@ -169,11 +230,7 @@ export class MasterPasswordState extends State {
       throw new ValidationError("Data must be a plain object");
     }
 
-    const plain = toPlainJson(value);
-    const dataAad = this.context.versionManager.getAadFor("data", this.context.config);
-    const { iv, ciphertext } = await this.context.enc.encryptData(this.context.dek!, plain, dataAad);
-    this.context.config!.data = { iv, ciphertext };
-    this.context.persist();
+    await this.context.persist(this.context.dek, toPlainJson(value));
   }
 
   async exportData(customExportPassword?: string): Promise<string> {
@@ -183,33 +240,34 @@ export class MasterPasswordState extends State {
     const plain = await this.context.decryptCurrentData();
 
     // Make DEK extractable for wrapping
-    const sessionKek = this.context.sessionKekOrThrow();
-    await this.context.unwrapDekWithKek(
-      sessionKek,
-      true,
-      this.context.versionManager.getAadFor("wrap", this.context.config)
-    );
+    const session = this.context.sessionWrap();
+    await this.context.unwrapDekWithSession(true);
 
     let spec: ExportSpec;
     if (!customExportPassword) {
-      // Use existing session KEK + original salt/rounds, mPw:true
+      if (session.slot && session.slot.kind !== "password") {
+        throw new ExportError("Export password required when unlocked without a password");
+      }
+      // Use existing session KEK + the salt/rounds of the wrap it opened, mPw:true
       spec = {
         dek: this.context.dek!,
-        kek: sessionKek,
-        saltB64: (this.context.config!.header as any).salt,
-        rounds: (this.context.config!.header as any).rounds,
-        mPw: true
+        kek: session.kek,
+        saltB64: session.salt,
+        rounds: session.rounds,
+        kdf: this.context.versionManager.kdfFor(session.slot ?? this.context.config!.header),
+        mPw: true,
+        commit: this.context.keyCommitment
       };
     } else {
       if (!customExportPassword.trim()) throw new ExportError("Export password must be a non-empty string");
       const saltB64 = this.context.enc.generateSaltB64();
-      const rounds = SLS_CONSTANTS.ARGON2.ITERATIONS;
+      const kdf = this.context.kdf;
       const kek = await this.context.deriveKekFromPassword(
         customExportPassword,
         base64ToBytes(saltB64),
-        rounds
+        kdf
       );
-      spec = { dek: this.context.dek!, kek, saltB64, rounds, mPw: false };
+      spec = { dek: this.context.dek!, kek, saltB64, rounds: kdf.time, kdf, mPw: false, commit: this.context.keyCommitment };
     }
 
     return Portability.buildExportBundle(this.context.enc, this.context.versionManager, spec, plain);
@@ -221,8 +279,8 @@ export class MasterPasswordState extends State {
     return (async () => {
       this.context.session.clear();
       this.context.dek = null;
-      this.context.store.clear();
-      await this.context.deviceKeyProvider.deletePersistent(this.context.idbConfig);
+      await this.context.store.clear();
+      await this.context.kekProvider.deletePersistent();
       await new InitialState(this.context).initialize(true);
     })();
   }
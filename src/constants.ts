@@ -1,7 +1,7 @@
 export const SLS_CONSTANTS = {
   CURRENT_DATA_VERSION: 2 as const, // keep 2 for backward compat / tests
-  MIGRATION_TARGET_VERSION: 3 as const,
-  SUPPORTED_VERSIONS: [2, 3] as const,
+  MIGRATION_TARGET_VERSION: 5 as const,
+  SUPPORTED_VERSIONS: [2, 3, 4, 5] as const,
 
   // AES-GCM
   AES: {
@@ -16,10 +16,29 @@ export const SLS_CONSTANTS = {
     ITERATIONS: 20,
     MEMORY_KIB: 64 * 1024,
     PARALLELISM: 1,
+    MIN_ITERATIONS: 2, // rounds === 1 marks device mode
     MAX_ITERATIONS: 64 as const,
+    MIN_MEMORY_KIB: 8 * 1024, // floor for the `kdf` option
+    MAX_MEMORY_KIB: 1024 * 1024, // upper bound accepted from a header (1 GiB)
+    MAX_PARALLELISM: 16,
     HASH_LEN: 32 // 256-bit
   },
 
+  // PBKDF2-HMAC-SHA-256 fallback (WebCrypto; for hosts that cannot run the Argon2 WASM)
+  PBKDF2: {
+    ITERATIONS: 600_000, // OWASP 2023 recommendation for SHA-256
+    MIN_ITERATIONS: 100_000,
+    MAX_ITERATIONS: 10_000_000,
+    HASH: "SHA-256" as const
+  },
+
+  // Argon2 parameters implied by v2/v3 headers, which only record `rounds`. Never change these.
+  ARGON2_LEGACY: {
+    MEMORY_KIB: 64 * 1024,
+    PARALLELISM: 1,
+    HASH_LEN: 32
+  },
+
   // Storage
   STORAGE_KEY: "secure-local-storage",
 
@@ -30,6 +49,25 @@ export const SLS_CONSTANTS = {
     ID: "deviceKek_v1"
   },
 
+  // IndexedDB data store (opt-in via `dataStore: "indexedDB"`)
+  IDB_DATA: {
+    DB_NAME: "SLS_DATA",
+    STORE: "envelopes"
+  },
+
   // Salt for Argon2
-  SALT_LEN: 16
+  SALT_LEN: 16,
+
+  // Recovery key: 160 random bits shown as grouped base32 (RFC 4648), KEK via HKDF-SHA-256
+  RECOVERY: {
+    BYTES: 20,
+    GROUP_LEN: 4,
+    HKDF_INFO: "sls|recovery|v1"
+  },
+
+  // Passkey unlock: KEK = HKDF-SHA-256(WebAuthn PRF output, salt)
+  WEBAUTHN: {
+    HKDF_INFO: "sls|webauthn-prf|v1",
+    RP_NAME: "secure-local-storage"
+  }
 };
\ No newline at end of file
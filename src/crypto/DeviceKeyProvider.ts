@@ -1,5 +1,5 @@
 import { SLS_CONSTANTS } from "../constants";
-import { NotSupportedError } from "../errors";
+import { openDB } from "../utils/idb";
 
 /** Public shape for configuring where the device KEK is persisted. */
 export interface IdbConfig {
@@ -22,6 +22,16 @@ function memKeyId(cfg: IdbConfig): string {
   return `${cfg.dbName}::${cfg.storeName}::${cfg.keyId}`;
 }
 
+/** Record id of the staged (not yet committed) KEK next to the current one. */
+function pendingKeyId(cfg: IdbConfig): string {
+  return `${cfg.keyId}#pending`;
+}
+
+/** Record id of a per-store counter (e.g. `rev:<storageKey>`) next to the KEK. */
+function counterId(cfg: IdbConfig, name: string): string {
+  return `${cfg.keyId}#${name}`;
+}
+
 function isValidKek(candidate: unknown): candidate is CryptoKey {
   const key = candidate as CryptoKey | undefined;
   const algoName = (key?.algorithm as { name?: unknown })?.name;
@@ -42,10 +52,22 @@ function isValidKek(candidate: unknown): candidate is CryptoKey {
  *
  * Now supports per-instance configuration of the IndexedDB DB/store/key id via IdbConfig.
  * If you don't pass a config, it uses SLS_CONSTANTS.IDB defaults (fully backwards compatible).
+ *
+ * Crash-safe rotation: {@link stageKey} persists a new KEK under `${keyId}#pending` next to the current one.
+ * The caller re-wraps and persists its envelope, then calls {@link commitPendingKey}, which promotes the
+ * pending KEK in a single transaction. Until then both KEKs remain available.
+ *
+ * Rollback and downgrade detection: {@link setRevision} records the newest envelope revision per store under
+ * `${keyId}#rev:${scope}`, {@link setMinVersion} the oldest format it still accepts under `${keyId}#minv:${scope}`.
+ * Both only move forward and survive {@link deletePersistent}.
  */
 export class DeviceKeyProvider {
   // Keep one in-memory key per (dbName, storeName, keyId)
   private static memoryKeys = new Map<string, CryptoKey>();
+  // Staged rotation keys per (dbName, storeName, keyId)
+  private static pendingMemoryKeys = new Map<string, CryptoKey>();
+  // Monotonic per-store counters (revision, minimum version) per (dbName, storeName, keyId, name)
+  private static memoryCounters = new Map<string, number>();
 
   static async getKey(cfgIn?: Partial<IdbConfig>): Promise<CryptoKey> {
     const cfg = resolveIdbConfig(cfgIn);
@@ -151,6 +173,137 @@ export class DeviceKeyProvider {
     }
   }
 
+  /**
+   * Generate a new KEK and persist it as the pending key, leaving the current KEK untouched.
+   * Re-wrap with the returned key, persist the envelope, then call {@link commitPendingKey}.
+   */
+  static async stageKey(cfgIn?: Partial<IdbConfig>): Promise<CryptoKey> {
+    const cfg = resolveIdbConfig(cfgIn);
+    const mk = memKeyId(cfg);
+
+    const newKey = await this.generateKek();
+    this.pendingMemoryKeys.set(mk, newKey);
+
+    if (!globalThis.indexedDB) return newKey;
+
+    const db = await this.openDB(cfg).catch(() => null);
+    if (!db) return newKey;
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(cfg.storeName, "readwrite");
+        tx.objectStore(cfg.storeName).put({ id: pendingKeyId(cfg), key: newKey });
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      });
+    } catch {
+      // Persisting failed -> pending key lives in memory for this session only
+    } finally {
+      db.close();
+    }
+    return newKey;
+  }
+
+  /** Return the staged KEK left by an unfinished rotation, or `null` if there is none. */
+  static async getPendingKey(cfgIn?: Partial<IdbConfig>): Promise<CryptoKey | null> {
+    const cfg = resolveIdbConfig(cfgIn);
+    const mem = this.pendingMemoryKeys.get(memKeyId(cfg));
+    if (mem) return mem;
+
+    if (!globalThis.indexedDB) return null;
+    const db = await this.openDB(cfg).catch(() => null);
+    if (!db) return null;
+    try {
+      const pending: unknown = await new Promise((resolve, reject) => {
+        const tx = db.transaction(cfg.storeName, "readonly");
+        const req = tx.objectStore(cfg.storeName).get(pendingKeyId(cfg));
+        req.onsuccess = () => resolve(req.result?.key);
+        req.onerror = () => reject(req.error);
+      });
+      return isValidKek(pending) ? pending : null;
+    } catch {
+      return null;
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Promote the pending KEK to the current KEK (single transaction) and return it.
+   * Returns the current KEK unchanged if nothing is pending.
+   */
+  static async commitPendingKey(cfgIn?: Partial<IdbConfig>): Promise<CryptoKey> {
+    const cfg = resolveIdbConfig(cfgIn);
+    const mk = memKeyId(cfg);
+
+    const pending = await this.getPendingKey(cfg);
+    if (!pending) return this.getKey(cfg);
+
+    // Keep identity stable within session even if the IndexedDB swap fails
+    this.memoryKeys.set(mk, pending);
+    this.pendingMemoryKeys.delete(mk);
+
+    if (!globalThis.indexedDB) return pending;
+    const db = await this.openDB(cfg).catch(() => null);
+    if (!db) return pending;
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(cfg.storeName, "readwrite");
+        const store = tx.objectStore(cfg.storeName);
+        store.put({ id: cfg.keyId, key: pending });
+        store.delete(pendingKeyId(cfg));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      });
+    } catch {
+      // non-fatal: the pending record is retried on the next initialization
+    } finally {
+      db.close();
+    }
+    return pending;
+  }
+
+  /** Drop a pending KEK (e.g. the envelope was never re-wrapped with it). */
+  static async discardPendingKey(cfgIn?: Partial<IdbConfig>): Promise<void> {
+    const cfg = resolveIdbConfig(cfgIn);
+    this.pendingMemoryKeys.delete(memKeyId(cfg));
+
+    if (!globalThis.indexedDB) return;
+    const db = await this.openDB(cfg).catch(() => null);
+    if (!db) return;
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(cfg.storeName, "readwrite");
+        tx.objectStore(cfg.storeName).delete(pendingKeyId(cfg));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      });
+    } catch {
+      /* non-fatal */
+    } finally {
+      db.close();
+    }
+  }
+
+  /** Highest revision recorded for `scope` (0 if none). */
+  static getRevision(scope: string, cfgIn?: Partial<IdbConfig>): Promise<number> {
+    return this.readCounter(resolveIdbConfig(cfgIn), `rev:${scope}`);
+  }
+
+  /** Record `rev` for `scope`; a lower value than the recorded one is ignored (single transaction). */
+  static setRevision(scope: string, rev: number, cfgIn?: Partial<IdbConfig>): Promise<void> {
+    return this.raiseCounter(resolveIdbConfig(cfgIn), `rev:${scope}`, rev);
+  }
+
+  /** Minimum envelope version accepted for `scope` (0 if none recorded). */
+  static getMinVersion(scope: string, cfgIn?: Partial<IdbConfig>): Promise<number> {
+    return this.readCounter(resolveIdbConfig(cfgIn), `minv:${scope}`);
+  }
+
+  /** Raise the minimum envelope version for `scope`; it is never lowered. */
+  static setMinVersion(scope: string, version: number, cfgIn?: Partial<IdbConfig>): Promise<void> {
+    return this.raiseCounter(resolveIdbConfig(cfgIn), `minv:${scope}`, version);
+  }
+
   /**
    * Remove persisted key material for this configuration and clear the in-memory copy.
    * For backward compatibility with the original implementation, this deletes the whole DB
@@ -160,16 +313,19 @@ export class DeviceKeyProvider {
   static async deletePersistent(cfgIn?: Partial<IdbConfig>): Promise<void> {
     const cfg = resolveIdbConfig(cfgIn);
     this.memoryKeys.delete(memKeyId(cfg));
+    this.pendingMemoryKeys.delete(memKeyId(cfg));
 
     if (!globalThis.indexedDB) return;
 
-    // Prefer surgical delete of only the targeted keyId.
+    // Prefer surgical delete of only the targeted keyId (and its pending rotation key).
     const db = await this.openDB(cfg).catch(() => null);
     if (db) {
       try {
         await new Promise<void>((resolve, reject) => {
           const tx = db.transaction(cfg.storeName, "readwrite");
-          const del = tx.objectStore(cfg.storeName).delete(cfg.keyId);
+          const store = tx.objectStore(cfg.storeName);
+          store.delete(pendingKeyId(cfg));
+          const del = store.delete(cfg.keyId);
           del.onsuccess = () => resolve();
           del.onerror = () => reject(del.error);
         });
@@ -191,6 +347,54 @@ export class DeviceKeyProvider {
 
   // --------------------------- private helpers ---------------------------
 
+  private static async readCounter(cfg: IdbConfig, name: string): Promise<number> {
+    const mem = this.memoryCounters.get(`${memKeyId(cfg)}::${name}`) ?? 0;
+
+    if (!globalThis.indexedDB) return mem;
+    const db = await this.openDB(cfg).catch(() => null);
+    if (!db) return mem;
+    try {
+      const stored: unknown = await new Promise((resolve, reject) => {
+        const tx = db.transaction(cfg.storeName, "readonly");
+        const req = tx.objectStore(cfg.storeName).get(counterId(cfg, name));
+        req.onsuccess = () => resolve(req.result?.value);
+        req.onerror = () => reject(req.error);
+      });
+      return Math.max(mem, Number.isSafeInteger(stored) ? (stored as number) : 0);
+    } catch {
+      return mem;
+    } finally {
+      db.close();
+    }
+  }
+
+  private static async raiseCounter(cfg: IdbConfig, name: string, value: number): Promise<void> {
+    const mk = `${memKeyId(cfg)}::${name}`;
+    this.memoryCounters.set(mk, Math.max(this.memoryCounters.get(mk) ?? 0, value));
+
+    if (!globalThis.indexedDB) return;
+    const db = await this.openDB(cfg).catch(() => null);
+    if (!db) return;
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(cfg.storeName, "readwrite");
+        const store = tx.objectStore(cfg.storeName);
+        const id = counterId(cfg, name);
+        const req = store.get(id);
+        req.onsuccess = () => {
+          const current = req.result?.value;
+          if (!Number.isSafeInteger(current) || current < value) store.put({ id, value });
+        };
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      });
+    } catch {
+      // non-fatal: the in-memory counter still applies for this session
+    } finally {
+      db.close();
+    }
+  }
+
   private static async generateKek(): Promise<CryptoKey> {
     return await crypto.subtle.generateKey(
       { name: SLS_CONSTANTS.AES.NAME, length: SLS_CONSTANTS.AES.LENGTH },
@@ -200,20 +404,6 @@ export class DeviceKeyProvider {
   }
 
   private static openDB(cfg: IdbConfig): Promise<IDBDatabase> {
-    return new Promise((resolve, reject) => {
-      try {
-        const req = indexedDB.open(cfg.dbName, 1);
-        req.onupgradeneeded = () => {
-          if (!req.result.objectStoreNames.contains(cfg.storeName)) {
-            req.result.createObjectStore(cfg.storeName, { keyPath: "id" });
-          }
-        };
-        req.onsuccess = () => resolve(req.result);
-        req.onerror = () =>
-          reject(new NotSupportedError(req.error?.message ?? "IndexedDB error"));
-      } catch (e) {
-        reject(new NotSupportedError((e as Error)?.message ?? "IndexedDB unavailable"));
-      }
-    });
+    return openDB(cfg.dbName, cfg.storeName);
   }
 }
\ No newline at end of file
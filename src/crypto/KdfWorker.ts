@@ -0,0 +1,134 @@
+import { CryptoError, KdfUnavailableError } from "../errors";
+import type { Argon2idKdf } from "../types";
+import { argon2Hash } from "./KeyDerivation";
+
+/** Message posted to the KDF worker. */
+export interface KdfWorkerRequest {
+  id: number;
+  password: string;
+  salt: Uint8Array;
+  kdf: Argon2idKdf;
+}
+
+/** Reply from the KDF worker: the raw Argon2 output (transferred) or the error it failed with. */
+export interface KdfWorkerResponse {
+  id: number;
+  hash?: Uint8Array;
+  error?: { name: string; message: string };
+}
+
+/** Worker-side handler: run one Argon2 derivation and report the result without throwing. */
+export async function handleKdfRequest(req: KdfWorkerRequest): Promise<KdfWorkerResponse> {
+  try {
+    return { id: req.id, hash: await argon2Hash(req.password, req.salt, req.kdf) };
+  } catch (e) {
+    return { id: req.id, error: { name: (e as Error)?.name ?? "Error", message: (e as Error)?.message ?? String(e) } };
+  }
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException("The operation was aborted", "AbortError");
+}
+
+type Pending = {
+  req: KdfWorkerRequest;
+  resolve: (hash: Uint8Array) => void;
+  reject: (e: unknown) => void;
+};
+
+/**
+ * Main-thread side of the Argon2 worker ({@link SecureLocalStorageOptions.kdfWorker}).
+ *
+ * The worker is started on first use and kept for later derivations. Aborting a request terminates the worker
+ * (Argon2 cannot be interrupted otherwise) and replays the other pending requests on a fresh one.
+ */
+export class KdfWorker {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private readonly pending = new Map<number, Pending>();
+
+  constructor(private readonly factory: () => Worker) {}
+
+  /** Raw Argon2id output for `kdf`; rejects with `signal.reason` when aborted. */
+  hash(password: string, salt: Uint8Array, kdf: Argon2idKdf, signal?: AbortSignal): Promise<Uint8Array> {
+    if (signal?.aborted) return Promise.reject(abortReason(signal));
+    const req: KdfWorkerRequest = { id: this.nextId++, password, salt, kdf };
+
+    return new Promise<Uint8Array>((resolve, reject) => {
+      const onAbort = () => {
+        if (!this.pending.delete(req.id)) return;
+        this.restart();
+        reject(abortReason(signal!));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.pending.set(req.id, {
+        req,
+        resolve: (hash) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(hash);
+        },
+        reject: (e) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(e);
+        }
+      });
+      try {
+        this.ensureWorker().postMessage(req);
+      } catch (e) {
+        this.pending.delete(req.id);
+        this.worker = null;
+        signal?.removeEventListener("abort", onAbort);
+        reject(new KdfUnavailableError(`KDF worker could not be started: ${(e as Error)?.message ?? e}`));
+      }
+    });
+  }
+
+  /** Stop the worker and reject everything still pending. */
+  terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    const pending = [...this.pending.values()];
+    this.pending.clear();
+    for (const p of pending) p.reject(new CryptoError("KDF worker was terminated"));
+  }
+
+  private ensureWorker(): Worker {
+    if (this.worker) return this.worker;
+    const worker = this.factory();
+    worker.onmessage = (e: MessageEvent<KdfWorkerResponse>) => this.settle(e.data);
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault?.();
+      if (this.worker !== worker) return;
+      this.worker = null;
+      worker.terminate();
+      const pending = [...this.pending.values()];
+      this.pending.clear();
+      for (const p of pending) {
+        p.reject(new KdfUnavailableError(`KDF worker failed: ${e.message || "could not be loaded"}`));
+      }
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  private restart(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    if (this.pending.size === 0) return;
+    const worker = this.ensureWorker();
+    for (const p of this.pending.values()) worker.postMessage(p.req);
+  }
+
+  private settle(res: KdfWorkerResponse): void {
+    const p = this.pending.get(res?.id);
+    if (!p) return;
+    this.pending.delete(res.id);
+    if (res.hash instanceof Uint8Array) {
+      p.resolve(res.hash);
+    } else if (res.error?.name === "KdfUnavailableError") {
+      p.reject(new KdfUnavailableError(res.error.message));
+    } else {
+      p.reject(new CryptoError(res.error?.message ?? "KDF worker returned no result"));
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { DeviceKeyProvider, type IdbConfig } from "./DeviceKeyProvider";
+
+/**
+ * Source of the device KEK used in password-less mode (and by device key slots).
+ *
+ * Implementations return an AES-GCM `CryptoKey` with `wrapKey`/`unwrapKey` usages that stays the same
+ * across sessions until rotated or deleted — e.g. a key held by a native bridge, an enterprise key
+ * service, or a test double. The IndexedDB implementation ({@link IndexedDbKekProvider}) is the default.
+ *
+ * The staging methods are optional as a group. Without them {@link SecureLocalStorage.rotateKeys} is not
+ * supported and startup cannot fall back to a pending KEK.
+ *
+ * The revision methods are optional as a pair. Without them rollback detection is off (see
+ * {@link RollbackDetectedError}); likewise the minimum-version pair, without which older formats stay accepted
+ * unless `acceptV2: false` is set.
+ */
+export interface KekProvider {
+  /** Current KEK; created on first use. */
+  getKey(): Promise<CryptoKey>;
+
+  /** Forget the persisted KEK (and any pending one). Called by `clear()`. */
+  deletePersistent(): Promise<void>;
+
+  /** Create a new KEK next to the current one without replacing it. */
+  stageKey?(): Promise<CryptoKey>;
+
+  /** The staged KEK, or `null` if nothing is staged. */
+  getPendingKey?(): Promise<CryptoKey | null>;
+
+  /** Promote the staged KEK to current and return it (returns the current KEK if nothing is staged). */
+  commitPendingKey?(): Promise<CryptoKey>;
+
+  /** Drop the staged KEK, keeping the current one. */
+  discardPendingKey?(): Promise<void>;
+
+  /** Highest envelope revision recorded for the store `scope` (its storage key); 0 if none. */
+  getRevision?(scope: string): Promise<number>;
+
+  /** Record the revision just persisted for `scope`. Must never lower the recorded value. */
+  setRevision?(scope: string, rev: number): Promise<void>;
+
+  /** Oldest envelope version still accepted for `scope`; 0 if none recorded. */
+  getMinVersion?(scope: string): Promise<number>;
+
+  /** Record the format `scope` has been written in. Must never lower the recorded value. */
+  setMinVersion?(scope: string, version: number): Promise<void>;
+}
+
+/** Default {@link KekProvider}: a non-extractable KEK in IndexedDB, scoped to one {@link IdbConfig} namespace. */
+export class IndexedDbKekProvider implements KekProvider {
+  constructor(private readonly cfg: IdbConfig) {}
+
+  getKey(): Promise<CryptoKey> {
+    return DeviceKeyProvider.getKey(this.cfg);
+  }
+
+  deletePersistent(): Promise<void> {
+    return DeviceKeyProvider.deletePersistent(this.cfg);
+  }
+
+  stageKey(): Promise<CryptoKey> {
+    return DeviceKeyProvider.stageKey(this.cfg);
+  }
+
+  getPendingKey(): Promise<CryptoKey | null> {
+    return DeviceKeyProvider.getPendingKey(this.cfg);
+  }
+
+  commitPendingKey(): Promise<CryptoKey> {
+    return DeviceKeyProvider.commitPendingKey(this.cfg);
+  }
+
+  discardPendingKey(): Promise<void> {
+    return DeviceKeyProvider.discardPendingKey(this.cfg);
+  }
+
+  getRevision(scope: string): Promise<number> {
+    return DeviceKeyProvider.getRevision(scope, this.cfg);
+  }
+
+  setRevision(scope: string, rev: number): Promise<void> {
+    return DeviceKeyProvider.setRevision(scope, rev, this.cfg);
+  }
+
+  getMinVersion(scope: string): Promise<number> {
+    return DeviceKeyProvider.getMinVersion(scope, this.cfg);
+  }
+
+  setMinVersion(scope: string, version: number): Promise<void> {
+    return DeviceKeyProvider.setMinVersion(scope, version, this.cfg);
+  }
+}
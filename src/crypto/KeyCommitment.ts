@@ -0,0 +1,78 @@
+import { SLS_CONSTANTS } from "../constants";
+import { CryptoError } from "../errors";
+import { base64ToBytes, bytesToBase64 } from "../utils/base64";
+import { asArrayBuffer } from "../utils/typedArray";
+
+// Fixed IV and constant: the wrap below must be a deterministic function of the KEK alone.
+const COMMIT_IV = new Uint8Array(SLS_CONSTANTS.AES.IV_LENGTH);
+const COMMIT_AAD = new TextEncoder().encode("sls|commit");
+// Message of the key check value; wrap AADs start with "sls|wrap|", so the two HMACs never collide.
+const KCV_MESSAGE = new TextEncoder().encode("sls|kcv");
+
+/**
+ * HMAC-SHA256 key derived from a (non-extractable) KEK.
+ *
+ * AES-GCM is not key-committing, so the KEK itself cannot serve as a commitment. Wrapping an all-zero key under
+ * the KEK with a fixed IV yields AES-CTR keystream, i.e. a PRF of the KEK; its first 32 bytes key the HMAC.
+ * Only `wrapKey` usage is needed, so every KEK of this library qualifies.
+ */
+async function commitmentKey(kek: CryptoKey): Promise<CryptoKey> {
+  let stream: Uint8Array | null = null;
+  let raw: Uint8Array | null = null;
+  try {
+    const zero = await crypto.subtle.importKey(
+      "raw",
+      new Uint8Array(SLS_CONSTANTS.AES.LENGTH / 8),
+      { name: SLS_CONSTANTS.AES.NAME },
+      true,
+      ["encrypt"]
+    );
+    stream = new Uint8Array(
+      await crypto.subtle.wrapKey("raw", zero, kek, { name: SLS_CONSTANTS.AES.NAME, iv: COMMIT_IV, additionalData: COMMIT_AAD })
+    );
+    raw = stream.slice(0, 32);
+    return await crypto.subtle.importKey(
+      "raw",
+      asArrayBuffer(raw),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign", "verify"]
+    );
+  } catch {
+    throw new CryptoError("Key commitment could not be computed");
+  } finally {
+    stream?.fill(0);
+    raw?.fill(0);
+  }
+}
+
+/** Key-commitment tag (base64 HMAC-SHA256) binding `kek` to `aad`, the wrap AAD of the header it protects. */
+export async function keyCommitment(kek: CryptoKey, aad: Uint8Array): Promise<string> {
+  const key = await commitmentKey(kek);
+  return bytesToBase64(new Uint8Array(await crypto.subtle.sign("HMAC", key, asArrayBuffer(aad))));
+}
+
+/** Whether `tag` is the key-commitment tag of `kek` for `aad` (constant-time comparison by WebCrypto). */
+export async function verifyKeyCommitment(kek: CryptoKey, aad: Uint8Array, tag: string): Promise<boolean> {
+  const key = await commitmentKey(kek);
+  let expected: Uint8Array;
+  try {
+    expected = base64ToBytes(tag);
+  } catch {
+    return false;
+  }
+  return crypto.subtle.verify("HMAC", key, asArrayBuffer(expected), asArrayBuffer(aad));
+}
+
+/**
+ * Key check value (base64 HMAC-SHA256 of a constant) for `kek`. It verifies a derived KEK on its own, so a
+ * wrong password can be told apart from a damaged wrapped key or ciphertext.
+ */
+export function keyCheckValue(kek: CryptoKey): Promise<string> {
+  return keyCommitment(kek, KCV_MESSAGE);
+}
+
+/** Whether `kcv` is the key check value of `kek`. */
+export function verifyKeyCheckValue(kek: CryptoKey, kcv: string): Promise<boolean> {
+  return verifyKeyCommitment(kek, KCV_MESSAGE, kcv);
+}
@@ -1,55 +1,281 @@
 import { SLS_CONSTANTS } from "../constants";
-import { CryptoError, ValidationError } from "../errors";
+import { CryptoError, KdfUnavailableError, ValidationError } from "../errors";
+import type { Argon2idKdf, KdfAlgorithm, KdfCalibration, KdfDescriptor, KdfOptions, Pbkdf2Kdf } from "../types";
 import { asArrayBuffer } from "../utils/typedArray";
+import type { KdfWorker } from "./KdfWorker";
 import * as argon2 from "argon2-browser";
 
-export async function deriveKekFromPassword(
-  password: string,
-  salt: Uint8Array,
-  iterations = SLS_CONSTANTS.ARGON2.ITERATIONS
-): Promise<CryptoKey> {
-  if (typeof password !== "string" || password.length === 0) {
-    throw new ValidationError("Password must be a non-empty string");
+const KDF_ALGORITHMS: readonly KdfAlgorithm[] = ["argon2id", "pbkdf2-sha256"];
+
+/** Whether this build can derive keys for `alg` (unknown algorithms come from newer library versions). */
+export function isKnownKdf(alg: unknown): alg is KdfAlgorithm {
+  return KDF_ALGORITHMS.includes(alg as KdfAlgorithm);
+}
+
+/** KDF descriptor for new password wraps (current {@link SLS_CONSTANTS.ARGON2} defaults). */
+export function defaultKdf(): Argon2idKdf {
+  return {
+    alg: "argon2id",
+    time: SLS_CONSTANTS.ARGON2.ITERATIONS,
+    memKiB: SLS_CONSTANTS.ARGON2.MEMORY_KIB,
+    parallelism: SLS_CONSTANTS.ARGON2.PARALLELISM,
+    hashLen: SLS_CONSTANTS.ARGON2.HASH_LEN
+  };
+}
+
+/**
+ * KDF descriptor for an instance's `kdf` option: the defaults of `opts.alg` overridden by `opts`.
+ * Throws {@link ValidationError} below the `MIN_*` constants of the algorithm or above the header limits.
+ */
+export function kdfFromOptions(opts?: KdfOptions): KdfDescriptor {
+  if (opts !== undefined && (!opts || typeof opts !== "object")) {
+    throw new ValidationError("kdf must be an object");
   }
-  
-  if (!(salt instanceof Uint8Array) || salt.byteLength !== SLS_CONSTANTS.SALT_LEN) {
-    throw new ValidationError(`Salt must be Uint8Array of length ${SLS_CONSTANTS.SALT_LEN}`);
+
+  if (opts?.alg === "pbkdf2-sha256") {
+    if (opts.memKiB !== undefined || opts.parallelism !== undefined) {
+      throw new ValidationError("kdf.memKiB and kdf.parallelism only apply to argon2id");
+    }
+    const kdf: Pbkdf2Kdf = {
+      alg: "pbkdf2-sha256",
+      time: opts.time ?? SLS_CONSTANTS.PBKDF2.ITERATIONS,
+      hashLen: SLS_CONSTANTS.ARGON2.HASH_LEN
+    };
+    const problem = kdfProblem(kdf);
+    if (problem) throw new ValidationError(problem);
+    if (kdf.time < SLS_CONSTANTS.PBKDF2.MIN_ITERATIONS) {
+      throw new ValidationError(`kdf.time must be at least ${SLS_CONSTANTS.PBKDF2.MIN_ITERATIONS} for pbkdf2-sha256`);
+    }
+    return kdf;
+  }
+
+  if (opts?.alg !== undefined && opts.alg !== "argon2id") {
+    throw new ValidationError(`kdf.alg must be one of ${KDF_ALGORITHMS.join(", ")}`);
+  }
+  const kdf: Argon2idKdf = {
+    ...defaultKdf(),
+    ...(opts?.time !== undefined ? { time: opts.time } : {}),
+    ...(opts?.memKiB !== undefined ? { memKiB: opts.memKiB } : {}),
+    ...(opts?.parallelism !== undefined ? { parallelism: opts.parallelism } : {})
+  };
+  const problem = kdfProblem(kdf);
+  if (problem) throw new ValidationError(problem);
+  if (kdf.time < SLS_CONSTANTS.ARGON2.MIN_ITERATIONS) {
+    throw new ValidationError(`kdf.time must be at least ${SLS_CONSTANTS.ARGON2.MIN_ITERATIONS}`);
+  }
+  if (kdf.memKiB < SLS_CONSTANTS.ARGON2.MIN_MEMORY_KIB) {
+    throw new ValidationError(`kdf.memKiB must be at least ${SLS_CONSTANTS.ARGON2.MIN_MEMORY_KIB}`);
+  }
+  return kdf;
+}
+
+/**
+ * Whether `kdf` is weaker than `policy`: a PBKDF2 wrap under an Argon2id policy, or fewer iterations / less
+ * memory with the same algorithm (parallelism does not add cost). An Argon2id wrap is never weaker than PBKDF2.
+ */
+export function isWeakerKdf(kdf: KdfDescriptor, policy: KdfDescriptor): boolean {
+  if (kdf.alg !== policy.alg) return policy.alg === "argon2id";
+  if (kdf.time < policy.time) return true;
+  return kdf.alg === "argon2id" && policy.alg === "argon2id" && kdf.memKiB < policy.memKiB;
+}
+
+/** KDF descriptor implied by a v2/v3 header (or key slot) that only records `rounds`. */
+export function legacyKdf(rounds: number): Argon2idKdf {
+  return {
+    alg: "argon2id",
+    time: rounds,
+    memKiB: SLS_CONSTANTS.ARGON2_LEGACY.MEMORY_KIB,
+    parallelism: SLS_CONSTANTS.ARGON2_LEGACY.PARALLELISM,
+    hashLen: SLS_CONSTANTS.ARGON2_LEGACY.HASH_LEN
+  };
+}
+
+/** Structural and range check for a descriptor read from a header; returns the reason or `null`. */
+export function kdfProblem(kdf: unknown): string | null {
+  const k = kdf as Partial<Argon2idKdf> | Partial<Pbkdf2Kdf> | null;
+  if (!k || typeof k !== "object") return "kdf must be an object";
+  if (k.hashLen !== SLS_CONSTANTS.ARGON2.HASH_LEN) return `kdf.hashLen must be ${SLS_CONSTANTS.ARGON2.HASH_LEN}`;
+
+  if (k.alg === "pbkdf2-sha256") {
+    const { MAX_ITERATIONS } = SLS_CONSTANTS.PBKDF2;
+    if (!Number.isInteger(k.time) || k.time! < 2 || k.time! > MAX_ITERATIONS) {
+      return `kdf.time must be an integer in [2, ${MAX_ITERATIONS}]`;
+    }
+    return null;
   }
 
-  if (!Number.isInteger(iterations) || iterations < 1 || iterations > SLS_CONSTANTS.ARGON2.MAX_ITERATIONS) {
-    throw new ValidationError(`iterations must be an integer in [1, ${SLS_CONSTANTS.ARGON2.MAX_ITERATIONS}]`);
+  if (k.alg !== "argon2id") return `kdf.alg must be one of ${KDF_ALGORITHMS.join(", ")}`;
+  const { MAX_ITERATIONS, MAX_MEMORY_KIB, MAX_PARALLELISM } = SLS_CONSTANTS.ARGON2;
+  if (!Number.isInteger(k.time) || k.time! < 1 || k.time! > MAX_ITERATIONS) {
+    return `kdf.time must be an integer in [1, ${MAX_ITERATIONS}]`;
   }
+  if (!Number.isInteger(k.parallelism) || k.parallelism! < 1 || k.parallelism! > MAX_PARALLELISM) {
+    return `kdf.parallelism must be an integer in [1, ${MAX_PARALLELISM}]`;
+  }
+  // Argon2 requires at least 8 KiB per lane.
+  if (!Number.isInteger(k.memKiB) || k.memKiB! < 8 * k.parallelism! || k.memKiB! > MAX_MEMORY_KIB) {
+    return `kdf.memKiB must be an integer in [${8 * k.parallelism!}, ${MAX_MEMORY_KIB}]`;
+  }
+  return null;
+}
 
+function isWasmUnavailable(e: unknown): boolean {
+  if (typeof WebAssembly === "undefined") return true;
+  if (e instanceof WebAssembly.CompileError || e instanceof WebAssembly.LinkError) return true;
+  // CSP violations (missing 'wasm-unsafe-eval') and failed module fetches surface as plain errors.
+  return /wasm|webassembly/i.test(String((e as Error)?.message ?? e));
+}
+
+/** Raw Argon2id output for `kdf` on the current thread (also the body of the KDF worker). */
+export async function argon2Hash(password: string, salt: Uint8Array, kdf: Argon2idKdf): Promise<Uint8Array> {
   let result: { hash: Uint8Array };
   try {
     result = await argon2.hash({
       pass: password,
       salt,
-      time: iterations,
-      mem: SLS_CONSTANTS.ARGON2.MEMORY_KIB,
-      hashLen: SLS_CONSTANTS.ARGON2.HASH_LEN,
-      parallelism: SLS_CONSTANTS.ARGON2.PARALLELISM,
+      time: kdf.time,
+      mem: kdf.memKiB,
+      hashLen: kdf.hashLen,
+      parallelism: kdf.parallelism,
       type: argon2.ArgonType.Argon2id
     });
   } catch (e) {
+    if (isWasmUnavailable(e)) {
+      throw new KdfUnavailableError(
+        `Argon2 is not available in this environment (${(e as Error)?.message ?? e}); use the "pbkdf2-sha256" KDF`
+      );
+    }
     throw new CryptoError(`Argon2 derivation failed: ${(e as Error)?.message ?? e}`);
   }
 
-  if (!result?.hash || result.hash.byteLength !== SLS_CONSTANTS.ARGON2.HASH_LEN) {
+  if (!result?.hash || result.hash.byteLength !== kdf.hashLen) {
     throw new CryptoError(
-      `Argon2 returned invalid hash size (expected ${SLS_CONSTANTS.ARGON2.HASH_LEN} bytes)`
+      `Argon2 returned invalid hash size (expected ${kdf.hashLen} bytes)`
     );
   }
+  return result.hash;
+}
 
+async function pbkdf2Kek(password: string, salt: Uint8Array, kdf: Pbkdf2Kdf): Promise<CryptoKey> {
+  if (!globalThis.crypto?.subtle) throw new KdfUnavailableError("WebCrypto is not available for PBKDF2");
+  try {
+    const base = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveKey"]);
+    return await crypto.subtle.deriveKey(
+      { name: "PBKDF2", hash: SLS_CONSTANTS.PBKDF2.HASH, salt: asArrayBuffer(salt), iterations: kdf.time },
+      base,
+      { name: SLS_CONSTANTS.AES.NAME, length: kdf.hashLen * 8 },
+      false,
+      ["wrapKey", "unwrapKey"]
+    );
+  } catch (e) {
+    throw new CryptoError(`PBKDF2 derivation failed: ${(e as Error)?.message ?? e}`);
+  }
+}
+
+async function timeArgon2(kdf: Argon2idKdf): Promise<number> {
+  const salt = new Uint8Array(SLS_CONSTANTS.SALT_LEN);
+  crypto.getRandomValues(salt);
+  const start = performance.now();
+  await argon2Hash("sls-calibration", salt, kdf);
+  return performance.now() - start;
+}
+
+/**
+ * Benchmark Argon2id on this device and pick the parameters whose derivation time is closest to `targetMs`.
+ *
+ * Starts at `maxMemKiB` and halves the memory (down to `MIN_MEMORY_KIB`) while even the minimum iteration count
+ * would overshoot, then scales the iterations to the target. The result can be passed as the `kdf` option or to
+ * `setMasterPassword()` / `rotateMasterPassword()`.
+ *
+ * @param opts.targetMs - Desired unlock time in milliseconds.
+ * @param opts.maxMemKiB - Memory ceiling (defaults to {@link SLS_CONSTANTS.ARGON2} `MEMORY_KIB`).
+ * @throws {@link KdfUnavailableError} If the Argon2 WASM cannot run here.
+ */
+export async function calibrateKdf(opts: { targetMs: number; maxMemKiB?: number }): Promise<KdfCalibration> {
+  const { MIN_ITERATIONS, MAX_ITERATIONS, MIN_MEMORY_KIB, MAX_MEMORY_KIB } = SLS_CONSTANTS.ARGON2;
+  const targetMs = opts?.targetMs;
+  if (typeof targetMs !== "number" || !Number.isFinite(targetMs) || targetMs <= 0) {
+    throw new ValidationError("targetMs must be a positive number");
+  }
+  const maxMemKiB = opts.maxMemKiB ?? SLS_CONSTANTS.ARGON2.MEMORY_KIB;
+  if (!Number.isInteger(maxMemKiB) || maxMemKiB < MIN_MEMORY_KIB || maxMemKiB > MAX_MEMORY_KIB) {
+    throw new ValidationError(`maxMemKiB must be an integer in [${MIN_MEMORY_KIB}, ${MAX_MEMORY_KIB}]`);
+  }
+
+  let kdf: Argon2idKdf = { ...defaultKdf(), time: MIN_ITERATIONS, memKiB: maxMemKiB, parallelism: 1 };
+  let ms = await timeArgon2(kdf);
+  while (ms > targetMs && kdf.memKiB > MIN_MEMORY_KIB) {
+    kdf = { ...kdf, memKiB: Math.max(MIN_MEMORY_KIB, Math.floor(kdf.memKiB / 2)) };
+    ms = await timeArgon2(kdf);
+  }
+
+  // Cost grows linearly with the iteration count at fixed memory.
+  const perPass = ms / kdf.time;
+  const time = Math.min(MAX_ITERATIONS, Math.max(MIN_ITERATIONS, Math.round(targetMs / Math.max(perPass, 1e-3))));
+  return { ...kdf, time, estimatedMs: Math.round(perPass * time) };
+}
+
+/**
+ * Derive an AES-GCM wrapping key from a password with the KDF recorded for the wrap.
+ *
+ * @param kdf - Full descriptor (v4 headers), or a bare iteration count which implies {@link legacyKdf}.
+ * @param opts.worker - Run Argon2 in this worker instead of on the calling thread; the KEK is imported here.
+ * @param opts.signal - Rejects with `signal.reason` once aborted (a worker derivation is stopped mid-way).
+ * @throws {@link KdfUnavailableError} If the descriptor names an unknown KDF or Argon2 cannot run here.
+ */
+export async function deriveKekFromPassword(
+  password: string,
+  salt: Uint8Array,
+  kdf: KdfDescriptor | number = SLS_CONSTANTS.ARGON2.ITERATIONS,
+  opts?: { worker?: KdfWorker; signal?: AbortSignal }
+): Promise<CryptoKey> {
+  if (typeof password !== "string" || password.length === 0) {
+    throw new ValidationError("Password must be a non-empty string");
+  }
+
+  if (!(salt instanceof Uint8Array) || salt.byteLength !== SLS_CONSTANTS.SALT_LEN) {
+    throw new ValidationError(`Salt must be Uint8Array of length ${SLS_CONSTANTS.SALT_LEN}`);
+  }
+
+  if (typeof kdf === "number") {
+    if (!Number.isInteger(kdf) || kdf < 1 || kdf > SLS_CONSTANTS.ARGON2.MAX_ITERATIONS) {
+      throw new ValidationError(`iterations must be an integer in [1, ${SLS_CONSTANTS.ARGON2.MAX_ITERATIONS}]`);
+    }
+    kdf = legacyKdf(kdf);
+  } else {
+    if (kdf && typeof kdf === "object" && !isKnownKdf(kdf.alg)) {
+      throw new KdfUnavailableError(`Unsupported KDF "${String(kdf.alg)}"`);
+    }
+    const problem = kdfProblem(kdf);
+    if (problem) throw new ValidationError(problem);
+  }
+
+  const signal = opts?.signal;
+  signal?.throwIfAborted();
+  if (kdf.alg === "pbkdf2-sha256") {
+    const kek = await pbkdf2Kek(password, salt, kdf);
+    signal?.throwIfAborted();
+    return kek;
+  }
+
+  const hash = opts?.worker
+    ? await opts.worker.hash(password, salt, kdf, signal)
+    : await argon2Hash(password, salt, kdf);
+  if (signal?.aborted) {
+    hash.fill(0);
+    signal.throwIfAborted();
+  }
   try {
     return await crypto.subtle.importKey(
       "raw",
-      asArrayBuffer(result.hash),
+      asArrayBuffer(hash),
       { name: SLS_CONSTANTS.AES.NAME, length: SLS_CONSTANTS.AES.LENGTH },
       false,
       ["wrapKey", "unwrapKey"]
     );
   } catch (e) {
     throw new CryptoError(`Failed to import derived key: ${(e as Error)?.message ?? e}`);
+  } finally {
+    hash.fill(0);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,90 @@
+import { SLS_CONSTANTS } from "../constants";
+import { CryptoError, ValidationError } from "../errors";
+import { asArrayBuffer } from "../utils/typedArray";
+
+const BASE32 = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+// Characters outside the alphabet that users commonly type for look-alikes.
+const CONFUSABLES: Record<string, string> = { "0": "O", "1": "I", "8": "B" };
+
+/**
+ * Generate a recovery code: {@link SLS_CONSTANTS.RECOVERY.BYTES} random bytes as base32,
+ * grouped with dashes (e.g. `ABCD-EFGH-...`).
+ */
+export function generateRecoveryCode(): { code: string; bytes: Uint8Array } {
+  const bytes = new Uint8Array(SLS_CONSTANTS.RECOVERY.BYTES);
+  crypto.getRandomValues(bytes);
+
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const b of bytes) {
+    value = (value << 8) | b;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32[(value << (5 - bits)) & 31];
+
+  const groups = out.match(new RegExp(`.{1,${SLS_CONSTANTS.RECOVERY.GROUP_LEN}}`, "g")) ?? [];
+  return { code: groups.join("-"), bytes };
+}
+
+/**
+ * Parse a recovery code back into its bytes. Case, whitespace and dashes are ignored.
+ * Throws {@link ValidationError} for malformed codes.
+ */
+export function parseRecoveryCode(code: string): Uint8Array {
+  if (typeof code !== "string") throw new ValidationError("Invalid recovery key");
+  const chars = code
+    .toUpperCase()
+    .replace(/[\s-]/g, "")
+    .replace(/[018]/g, (c) => CONFUSABLES[c]!);
+
+  const expectedLen = Math.ceil((SLS_CONSTANTS.RECOVERY.BYTES * 8) / 5);
+  if (chars.length !== expectedLen) throw new ValidationError("Invalid recovery key");
+
+  const bytes = new Uint8Array(SLS_CONSTANTS.RECOVERY.BYTES);
+  let bits = 0;
+  let value = 0;
+  let i = 0;
+  for (const c of chars) {
+    const idx = BASE32.indexOf(c);
+    if (idx < 0) throw new ValidationError("Invalid recovery key");
+    value = ((value << 5) | idx) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      if (i < bytes.length) bytes[i++] = (value >>> (bits - 8)) & 0xff;
+      bits -= 8;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Derive the recovery KEK with HKDF-SHA-256. The code already carries 160 bits of entropy,
+ * so no password-hardening KDF is needed.
+ */
+export async function deriveKekFromRecoveryCode(bytes: Uint8Array, salt: Uint8Array): Promise<CryptoKey> {
+  if (!(salt instanceof Uint8Array) || salt.byteLength !== SLS_CONSTANTS.SALT_LEN) {
+    throw new ValidationError(`Salt must be Uint8Array of length ${SLS_CONSTANTS.SALT_LEN}`);
+  }
+  try {
+    const ikm = await crypto.subtle.importKey("raw", asArrayBuffer(bytes), "HKDF", false, ["deriveKey"]);
+    return await crypto.subtle.deriveKey(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt: asArrayBuffer(salt),
+        info: new TextEncoder().encode(SLS_CONSTANTS.RECOVERY.HKDF_INFO)
+      },
+      ikm,
+      { name: SLS_CONSTANTS.AES.NAME, length: SLS_CONSTANTS.AES.LENGTH },
+      false,
+      ["wrapKey", "unwrapKey"]
+    );
+  } catch (e) {
+    throw new CryptoError(`Recovery key derivation failed: ${(e as Error)?.message ?? e}`);
+  }
+}
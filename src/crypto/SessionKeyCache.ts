@@ -1,16 +1,19 @@
 /**
  * Caches a derived KEK (CryptoKey) for master password sessions.
  * Key is non-extractable and kept only in RAM.
+ * When the session was opened through a key slot, the slot id is remembered alongside.
  */
 export class SessionKeyCache {
   private key: CryptoKey | null = null;
   private saltB64: string | null = null;
   private rounds: number | null = null;
+  private slot: string | null = null;
 
-  set(key: CryptoKey, saltB64: string, rounds: number) {
+  set(key: CryptoKey, saltB64: string, rounds: number, slotId: string | null = null) {
     this.key = key;
     this.saltB64 = saltB64;
     this.rounds = rounds;
+    this.slot = slotId;
   }
 
   match(saltB64: string, rounds: number): CryptoKey | null {
@@ -19,9 +22,15 @@ export class SessionKeyCache {
     return null;
   }
 
+  /** Id of the key slot that opened the session, or `null` for the primary wrap. */
+  slotId(): string | null {
+    return this.key ? this.slot : null;
+  }
+
   clear() {
     this.key = null;
     this.saltB64 = null;
     this.rounds = null;
+    this.slot = null;
   }
-}
\ No newline at end of file
+}
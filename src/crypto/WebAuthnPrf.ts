@@ -0,0 +1,174 @@
+import { CryptoError, NotSupportedError, ValidationError } from "../errors";
+import { bytesToBase64 } from "../utils/base64";
+import { asArrayBuffer } from "../utils/typedArray";
+import { SLS_CONSTANTS } from "../constants";
+import type { KekProvider } from "./KekProvider";
+
+/** Relying-party/user names shown by the browser when a passkey is created. */
+export interface PasskeyRegistration {
+  rpName: string;
+  userName: string;
+}
+
+/** A credential the authenticator may use, with the PRF input to evaluate for it. */
+export interface PrfCandidate {
+  credentialId: Uint8Array;
+  salt: Uint8Array;
+}
+
+/**
+ * Boundary around `navigator.credentials` for the WebAuthn PRF extension.
+ * Inject a stub in tests or non-browser hosts; {@link NavigatorPrfAuthenticator} is the browser implementation.
+ */
+export interface PrfAuthenticator {
+  /** Create a PRF-capable credential and return its raw id. */
+  register(registration: PasskeyRegistration): Promise<Uint8Array>;
+
+  /** Let the user pick one of the candidates and return its id with the PRF output for its salt. */
+  evaluate(candidates: PrfCandidate[]): Promise<{ credentialId: Uint8Array; output: Uint8Array }>;
+}
+
+function randomBytes(n: number): Uint8Array {
+  const b = new Uint8Array(n);
+  crypto.getRandomValues(b);
+  return b;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+type PrfExtensionResults = {
+  prf?: { enabled?: boolean; results?: { first?: BufferSource } };
+};
+
+/**
+ * {@link PrfAuthenticator} backed by `navigator.credentials` (user verification required).
+ * Throws {@link NotSupportedError} if WebAuthn or the PRF extension is unavailable.
+ */
+export class NavigatorPrfAuthenticator implements PrfAuthenticator {
+  constructor(private readonly rpId?: string) {}
+
+  async register(registration: PasskeyRegistration): Promise<Uint8Array> {
+    const credentials = this.credentials();
+    const cred = (await credentials.create({
+      publicKey: {
+        rp: { name: registration.rpName, ...(this.rpId ? { id: this.rpId } : {}) },
+        user: {
+          id: asArrayBuffer(randomBytes(16)),
+          name: registration.userName,
+          displayName: registration.userName
+        },
+        challenge: asArrayBuffer(randomBytes(32)),
+        pubKeyCredParams: [
+          { type: "public-key", alg: -7 },   // ES256
+          { type: "public-key", alg: -257 }  // RS256
+        ],
+        authenticatorSelection: { residentKey: "preferred", userVerification: "required" },
+        extensions: { prf: {} } as AuthenticationExtensionsClientInputs
+      }
+    })) as PublicKeyCredential | null;
+    if (!cred) throw new CryptoError("Passkey registration was cancelled");
+
+    const ext = cred.getClientExtensionResults() as PrfExtensionResults;
+    if (!ext.prf?.enabled) throw new NotSupportedError("Authenticator does not support the WebAuthn PRF extension");
+    return new Uint8Array(cred.rawId);
+  }
+
+  async evaluate(candidates: PrfCandidate[]): Promise<{ credentialId: Uint8Array; output: Uint8Array }> {
+    const credentials = this.credentials();
+    const evalByCredential: Record<string, { first: ArrayBuffer }> = {};
+    for (const c of candidates) evalByCredential[toBase64Url(c.credentialId)] = { first: asArrayBuffer(c.salt) };
+
+    const cred = (await credentials.get({
+      publicKey: {
+        challenge: asArrayBuffer(randomBytes(32)),
+        ...(this.rpId ? { rpId: this.rpId } : {}),
+        allowCredentials: candidates.map((c) => ({ type: "public-key" as const, id: asArrayBuffer(c.credentialId) })),
+        userVerification: "required",
+        extensions: { prf: { evalByCredential } } as AuthenticationExtensionsClientInputs
+      }
+    })) as PublicKeyCredential | null;
+    if (!cred) throw new CryptoError("Passkey authentication was cancelled");
+
+    const first = (cred.getClientExtensionResults() as PrfExtensionResults).prf?.results?.first;
+    if (!first) throw new NotSupportedError("Authenticator did not return a PRF result");
+    const output = first instanceof ArrayBuffer
+      ? new Uint8Array(first)
+      : new Uint8Array(first.buffer, first.byteOffset, first.byteLength);
+    return { credentialId: new Uint8Array(cred.rawId), output };
+  }
+
+  private credentials(): CredentialsContainer {
+    const credentials = globalThis.navigator?.credentials;
+    if (!credentials || typeof globalThis.PublicKeyCredential === "undefined") {
+      throw new NotSupportedError("WebAuthn is not available in this environment");
+    }
+    return credentials;
+  }
+}
+
+/** Derive an AES-GCM wrapping key from a PRF output with HKDF-SHA-256 (`salt` is the PRF input). */
+export async function deriveKekFromPrf(output: Uint8Array, salt: Uint8Array): Promise<CryptoKey> {
+  if (!(output instanceof Uint8Array) || output.byteLength < 32) {
+    throw new ValidationError("PRF output must be at least 32 bytes");
+  }
+  try {
+    const ikm = await crypto.subtle.importKey("raw", asArrayBuffer(output), "HKDF", false, ["deriveKey"]);
+    return await crypto.subtle.deriveKey(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt: asArrayBuffer(salt),
+        info: new TextEncoder().encode(SLS_CONSTANTS.WEBAUTHN.HKDF_INFO)
+      },
+      ikm,
+      { name: SLS_CONSTANTS.AES.NAME, length: SLS_CONSTANTS.AES.LENGTH },
+      false,
+      ["wrapKey", "unwrapKey"]
+    );
+  } catch (e) {
+    throw new CryptoError(`PRF key derivation failed: ${(e as Error)?.message ?? e}`);
+  }
+}
+
+/**
+ * {@link KekProvider} whose KEK comes from a passkey: every {@link getKey} after {@link deletePersistent}
+ * asks the authenticator for the PRF output of `credentialId`/`salt` and derives the KEK via HKDF.
+ *
+ * Use {@link WebAuthnPrfKekProvider.enroll} once to create the credential and keep `{ credentialId, salt }`
+ * (not secret) next to the store. Rotation is not supported; the KEK is fixed by the credential.
+ */
+export class WebAuthnPrfKekProvider implements KekProvider {
+  private key: CryptoKey | null = null;
+
+  constructor(
+    private readonly authenticator: PrfAuthenticator,
+    private readonly credentialId: Uint8Array,
+    private readonly salt: Uint8Array
+  ) {}
+
+  static async enroll(
+    authenticator: PrfAuthenticator,
+    registration: PasskeyRegistration
+  ): Promise<{ credentialId: Uint8Array; salt: Uint8Array }> {
+    const credentialId = await authenticator.register(registration);
+    return { credentialId, salt: randomBytes(SLS_CONSTANTS.SALT_LEN) };
+  }
+
+  async getKey(): Promise<CryptoKey> {
+    if (this.key) return this.key;
+    const { output } = await this.authenticator.evaluate([{ credentialId: this.credentialId, salt: this.salt }]);
+    try {
+      this.key = await deriveKekFromPrf(output, this.salt);
+    } finally {
+      output.fill(0);
+    }
+    return this.key;
+  }
+
+  async deletePersistent(): Promise<void> {
+    // Nothing is persisted; the credential lives in the authenticator.
+    this.key = null;
+  }
+}
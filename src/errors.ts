@@ -67,3 +67,66 @@ export class PersistenceError extends SlsError {
         this.name = "PersistenceError";
     }
 }
+
+export class CorruptConfigError extends SlsError {
+    constructor(message = "Persisted config is invalid or corrupted") {
+        super(message);
+        this.name = "CorruptConfigError";
+    }
+}
+
+export class DeviceKeyMismatchError extends SlsError {
+    constructor(message = "Device KEK cannot unwrap the stored data key") {
+        super(message);
+        this.name = "DeviceKeyMismatchError";
+    }
+}
+
+export class KdfUnavailableError extends SlsError {
+    constructor(message = "The key derivation function required by this store is not available") {
+        super(message);
+        this.name = "KdfUnavailableError";
+    }
+}
+
+export class RollbackDetectedError extends SlsError {
+    constructor(message = "Persisted store is older than the last revision written on this device") {
+        super(message);
+        this.name = "RollbackDetectedError";
+    }
+}
+
+export class KeyCommitmentError extends SlsError {
+    constructor(message = "Password-derived key does not match the key commitment of this envelope") {
+        super(message);
+        this.name = "KeyCommitmentError";
+    }
+}
+
+export class InvalidPasswordError extends ValidationError {
+    constructor(message = "Invalid master password") {
+        super(message);
+        this.name = "InvalidPasswordError";
+    }
+}
+
+export class CorruptDataError extends ValidationError {
+    constructor(message = "The password is correct, but the wrapped key or ciphertext is corrupted") {
+        super(message);
+        this.name = "CorruptDataError";
+    }
+}
+
+export class InvalidImportPasswordError extends ImportError {
+    constructor(message = "Invalid export password") {
+        super(message);
+        this.name = "InvalidImportPasswordError";
+    }
+}
+
+export class CorruptImportDataError extends ImportError {
+    constructor(message = "The password is correct, but the export data is corrupted") {
+        super(message);
+        this.name = "CorruptImportDataError";
+    }
+}
@@ -2,6 +2,36 @@ import { SecureLocalStorage, type SecureLocalStorageOptions } from "./api/Secure
 
 export type { SecureLocalStorageOptions } from "./api/SecureLocalStorageStates";
 export { SecureLocalStorage } from "./api/SecureLocalStorageStates";
+export type { StorageAdapter } from "./storage/StorageAdapter";
+export { LocalStorageAdapter, SessionStorageAdapter, MemoryStorageAdapter } from "./storage/StorageAdapter";
+export type { IdbDataConfig } from "./storage/IndexedDbDataStore";
+export type { KekProvider } from "./crypto/KekProvider";
+export { IndexedDbKekProvider } from "./crypto/KekProvider";
+export type { PasskeyRegistration, PrfAuthenticator, PrfCandidate } from "./crypto/WebAuthnPrf";
+export { NavigatorPrfAuthenticator, WebAuthnPrfKekProvider } from "./crypto/WebAuthnPrf";
+export { calibrateKdf } from "./crypto/KeyDerivation";
+export {
+  SlsError,
+  ValidationError,
+  LockedError,
+  ModeError,
+  StorageFullError,
+  CryptoError,
+  ImportError,
+  ExportError,
+  NotSupportedError,
+  PersistenceError,
+  CorruptConfigError,
+  DeviceKeyMismatchError,
+  KdfUnavailableError,
+  RollbackDetectedError,
+  KeyCommitmentError,
+  InvalidPasswordError,
+  CorruptDataError,
+  InvalidImportPasswordError,
+  CorruptImportDataError
+} from "./errors";
+export type { KdfCalibration, KdfDescriptor, KdfOptions, KeySlotInfo, KeySlotKind, QuarantineInfo, ResetReason, RotateKeysOptions, SlsEventMap, SlsStatus, UnlockOptions } from "./types";
 
 /**
  * Creates and initializes a new `SecureLocalStorage` instance.
@@ -0,0 +1,12 @@
+// Entry point of the Argon2 worker bundle (see SecureLocalStorageOptions.kdfWorker).
+import { handleKdfRequest, type KdfWorkerRequest } from "./crypto/KdfWorker";
+
+const scope = globalThis as unknown as {
+  onmessage: ((e: MessageEvent<KdfWorkerRequest>) => void) | null;
+  postMessage(message: unknown, transfer: Transferable[]): void;
+};
+
+scope.onmessage = async (e) => {
+  const res = await handleKdfRequest(e.data);
+  scope.postMessage(res, res.hash ? [res.hash.buffer as ArrayBuffer] : []);
+};
@@ -0,0 +1,236 @@
+import { SLS_CONSTANTS } from "../constants";
+import type { PersistedConfig } from "../types";
+import { PersistenceError, StorageFullError } from "../errors";
+import { base64ToBytes, bytesToBase64 } from "../utils/base64";
+import { openDB } from "../utils/idb";
+import type { StorageAdapter } from "./StorageAdapter";
+import { type ConfigStore, type StorageService, isQuotaExceeded } from "./StorageService";
+
+/** Public shape for configuring where the encrypted envelope is persisted in IndexedDB. */
+export interface IdbDataConfig {
+  dbName: string;
+  storeName: string;
+}
+
+/**
+ * Record layout in the object store. The header is kept as-is; data IV and ciphertext are stored
+ * as raw bytes (no base64 inflation).
+ */
+interface EnvelopeRecord {
+  id: string;
+  header: PersistedConfig["header"];
+  data: { iv: Uint8Array; ciphertext: Uint8Array };
+}
+
+function toBytes(b64: string): Uint8Array {
+  return b64 ? base64ToBytes(b64) : new Uint8Array(0);
+}
+
+function isEnvelopeRecord(rec: unknown): rec is EnvelopeRecord {
+  const r = rec as Partial<EnvelopeRecord> | undefined;
+  return (
+    !!r &&
+    !!r.header &&
+    typeof r.header === "object" &&
+    !!r.data &&
+    r.data.iv instanceof Uint8Array &&
+    r.data.ciphertext instanceof Uint8Array
+  );
+}
+
+/**
+ * Persists the config envelope in IndexedDB instead of a single Web Storage string.
+ *
+ * - One record per storage key inside `{ dbName, storeName }` (defaults: {@link SLS_CONSTANTS.IDB_DATA}).
+ * - On first `get()` with no record, an existing envelope in the legacy {@link StorageService} is moved over:
+ *   it is written to IndexedDB first and only then removed from the legacy backend.
+ * - Quota errors surface as {@link StorageFullError}; other failures, including failed reads, as
+ *   {@link PersistenceError}.
+ */
+export class IndexedDbDataStore implements ConfigStore {
+  private readonly cfg: IdbDataConfig;
+
+  constructor(
+    private readonly key: string,
+    cfg?: Partial<IdbDataConfig>,
+    private readonly legacy?: StorageService
+  ) {
+    this.cfg = {
+      dbName: cfg?.dbName ?? SLS_CONSTANTS.IDB_DATA.DB_NAME,
+      storeName: cfg?.storeName ?? SLS_CONSTANTS.IDB_DATA.STORE
+    };
+  }
+
+  async get(): Promise<PersistedConfig | null> {
+    const rec = await this.read();
+    if (rec !== undefined) {
+      if (!isEnvelopeRecord(rec)) return null;
+      return {
+        header: rec.header,
+        data: { iv: bytesToBase64(rec.data.iv), ciphertext: bytesToBase64(rec.data.ciphertext) }
+      } as PersistedConfig;
+    }
+    return await this.migrateFromLegacy();
+  }
+
+  /**
+   * The stored record serialized as found, valid or not (byte fields as base64), so it can be quarantined.
+   * Falls back to the legacy backend when IndexedDB has no record yet.
+   */
+  async getRaw(): Promise<string | null> {
+    const rec = await this.read();
+    if (rec === undefined) return (await this.legacy?.getRaw()) ?? null;
+    if (isEnvelopeRecord(rec)) return JSON.stringify(await this.get());
+    return JSON.stringify(rec, (_k, v: unknown) =>
+      v instanceof Uint8Array ? bytesToBase64(v) : v instanceof ArrayBuffer ? bytesToBase64(new Uint8Array(v)) : v
+    ) ?? String(rec);
+  }
+
+  /**
+   * Key/value view of the same object store for side records next to the envelope (e.g. the quarantine list),
+   * so they live in the same backend as the data.
+   */
+  adapter(): StorageAdapter {
+    return new IndexedDbAdapter(this.cfg);
+  }
+
+  async set(cfg: PersistedConfig): Promise<void> {
+    let record: EnvelopeRecord;
+    try {
+      record = {
+        id: this.key,
+        header: cfg.header,
+        data: { iv: toBytes(cfg.data.iv), ciphertext: toBytes(cfg.data.ciphertext) }
+      };
+    } catch (e) {
+      throw new PersistenceError(`Failed to persist data: ${(e as Error)?.message ?? String(e)}`);
+    }
+
+    try {
+      const db = await openDB(this.cfg.dbName, this.cfg.storeName);
+      try {
+        await new Promise<void>((resolve, reject) => {
+          const tx = db.transaction(this.cfg.storeName, "readwrite");
+          tx.objectStore(this.cfg.storeName).put(record);
+          tx.oncomplete = () => resolve();
+          tx.onerror = () => reject(tx.error);
+          tx.onabort = () => reject(tx.error);
+        });
+      } finally {
+        db.close();
+      }
+    } catch (e) {
+      if (isQuotaExceeded(e)) {
+        throw new StorageFullError(`IndexedDB quota exceeded (${record.data.ciphertext.byteLength} bytes)`);
+      }
+      throw new PersistenceError(`Failed to persist data: ${(e as Error)?.message ?? String(e)}`);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.legacy?.clear();
+    await this.withStore("readwrite", (store, tx) => new Promise<void>((resolve, reject) => {
+      store.delete(this.key);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    }));
+  }
+
+  // --------------------------- private helpers ---------------------------
+
+  private read(): Promise<unknown> {
+    return this.withStore("readonly", (store) => new Promise<unknown>((resolve, reject) => {
+      const req = store.get(this.key);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    }));
+  }
+
+  /**
+   * Run `fn` in a transaction on the envelope store. Open and transaction failures surface as
+   * {@link PersistenceError}, so an unreadable database is never mistaken for an empty one.
+   */
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore, tx: IDBTransaction) => Promise<T>
+  ): Promise<T> {
+    let db: IDBDatabase;
+    try {
+      db = await openDB(this.cfg.dbName, this.cfg.storeName);
+    } catch (e) {
+      throw new PersistenceError(`Failed to open IndexedDB: ${(e as Error)?.message ?? String(e)}`);
+    }
+    try {
+      const tx = db.transaction(this.cfg.storeName, mode);
+      return await fn(tx.objectStore(this.cfg.storeName), tx);
+    } catch (e) {
+      throw new PersistenceError(`IndexedDB ${mode} failed: ${(e as Error)?.message ?? String(e)}`);
+    } finally {
+      db.close();
+    }
+  }
+
+  private async migrateFromLegacy(): Promise<PersistedConfig | null> {
+    const legacyCfg = (await this.legacy?.get()) ?? null;
+    if (!legacyCfg) return null;
+    try {
+      await this.set(legacyCfg);
+    } catch {
+      // Leave the legacy copy in place; it is retried on the next open.
+      return legacyCfg;
+    }
+    await this.legacy!.clear();
+    return legacyCfg;
+  }
+}
+
+/**
+ * String records (`{ id, value }`) in an IndexedDB object store, behind the {@link StorageAdapter} interface.
+ * Errors are passed through unchanged so callers can map quota failures themselves.
+ */
+class IndexedDbAdapter implements StorageAdapter {
+  constructor(private readonly cfg: IdbDataConfig) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const rec = await this.run<{ value?: unknown } | undefined>("readonly", (store, _tx, done, fail) => {
+      const req = store.get(key);
+      req.onsuccess = () => done(req.result);
+      req.onerror = () => fail(req.error);
+    });
+    return typeof rec?.value === "string" ? rec.value : null;
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return this.run<void>("readwrite", (store, tx, done, fail) => {
+      store.put({ id: key, value });
+      tx.oncomplete = () => done();
+      tx.onerror = () => fail(tx.error);
+      tx.onabort = () => fail(tx.error);
+    });
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.run<void>("readwrite", (store, tx, done, fail) => {
+      store.delete(key);
+      tx.oncomplete = () => done();
+      tx.onerror = () => fail(tx.error);
+      tx.onabort = () => fail(tx.error);
+    });
+  }
+
+  private async run<T>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore, tx: IDBTransaction, done: (v: T) => void, fail: (e: unknown) => void) => void
+  ): Promise<T> {
+    const db = await openDB(this.cfg.dbName, this.cfg.storeName);
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(this.cfg.storeName, mode);
+        fn(tx.objectStore(this.cfg.storeName), tx, resolve, reject);
+      });
+    } finally {
+      db.close();
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import type { QuarantineInfo, ResetReason } from "../types";
+import { PersistenceError, StorageFullError, ValidationError } from "../errors";
+import { randomId } from "../utils/randomId";
+import type { StorageAdapter } from "./StorageAdapter";
+import { estimateBytes, isQuotaExceeded } from "./StorageService";
+
+interface QuarantineEntry extends QuarantineInfo {
+  payload: string; // serialized envelope exactly as it was found
+}
+
+/**
+ * Keeps unreadable envelopes under `${key}#quarantine` (a JSON array) so initialization can start a fresh
+ * store without destroying them. Entries stay until {@link QuarantineStore.remove} is called.
+ */
+export class QuarantineStore {
+  constructor(
+    private readonly key: string,
+    private readonly adapter: StorageAdapter
+  ) {}
+
+  async list(): Promise<QuarantineInfo[]> {
+    return (await this.read()).map(({ id, reason, quarantinedAt, size }) => ({ id, reason, quarantinedAt, size }));
+  }
+
+  /** Return the serialized envelope of an entry. Throws {@link ValidationError} for unknown ids. */
+  async get(id: string): Promise<string> {
+    const entry = (await this.read()).find((e) => e.id === id);
+    if (!entry) throw new ValidationError(`Unknown quarantine entry: ${String(id)}`);
+    return entry.payload;
+  }
+
+  async add(reason: ResetReason, payload: string): Promise<QuarantineInfo> {
+    const entries = await this.read();
+    const entry: QuarantineEntry = { id: randomId(), reason, quarantinedAt: Date.now(), size: payload.length, payload };
+    entries.push(entry);
+    await this.write(entries);
+    return { id: entry.id, reason: entry.reason, quarantinedAt: entry.quarantinedAt, size: entry.size };
+  }
+
+  async remove(id: string): Promise<void> {
+    const entries = await this.read();
+    const rest = entries.filter((e) => e.id !== id);
+    if (rest.length === entries.length) throw new ValidationError(`Unknown quarantine entry: ${String(id)}`);
+    if (rest.length === 0) {
+      await this.adapter.removeItem(this.key);
+    } else {
+      await this.write(rest);
+    }
+  }
+
+  // --------------------------- private helpers ---------------------------
+
+  private async read(): Promise<QuarantineEntry[]> {
+    const raw = await this.adapter.getItem(this.key);
+    if (!raw) return [];
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+      return Array.isArray(parsed)
+        ? (parsed as QuarantineEntry[]).filter((e) => e && typeof e.id === "string" && typeof e.payload === "string")
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private async write(entries: QuarantineEntry[]): Promise<void> {
+    const serialized = JSON.stringify(entries);
+    try {
+      await this.adapter.setItem(this.key, serialized);
+      if ((await this.adapter.getItem(this.key)) !== serialized) {
+        throw new PersistenceError("Failed to persist quarantine (integrity check)");
+      }
+    } catch (e) {
+      if (isQuotaExceeded(e)) {
+        throw new StorageFullError(`Storage quota exceeded (${estimateBytes(serialized)} bytes)`);
+      }
+      const msg = (e as Error)?.message ?? String(e);
+      throw new PersistenceError(`Failed to persist quarantine: ${msg}`);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,69 @@
+/**
+ * Minimal key/value backend used by {@link StorageService} to persist the serialized bundle.
+ *
+ * The shape mirrors the Web Storage API so `localStorage`/`sessionStorage` (or any object exposing the
+ * same three methods) can be plugged in directly. Each method may also return a Promise, which allows
+ * asynchronous backends such as Capacitor Preferences, React Native AsyncStorage, or OPFS wrappers.
+ * Implementations should throw (or reject with) the backend's native error on quota exhaustion;
+ * {@link StorageService} maps such errors to {@link StorageFullError}.
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * Adapter backed by `globalThis.localStorage` (default).
+ * The global is resolved on every call so test doubles and late polyfills are honoured.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  getItem(key: string): string | null {
+    return localStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    localStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    localStorage.removeItem(key);
+  }
+}
+
+/**
+ * Adapter backed by `globalThis.sessionStorage` (tab-scoped, cleared when the tab closes).
+ */
+export class SessionStorageAdapter implements StorageAdapter {
+  getItem(key: string): string | null {
+    return sessionStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    sessionStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    sessionStorage.removeItem(key);
+  }
+}
+
+/**
+ * Volatile in-memory adapter. Contents are lost when the instance is garbage collected.
+ * Useful for tests, SSR, and environments without Web Storage.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private map = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.map.has(key) ? this.map.get(key)! : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.map.set(key, String(value));
+  }
+
+  removeItem(key: string): void {
+    this.map.delete(key);
+  }
+}
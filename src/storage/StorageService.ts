@@ -1,57 +1,286 @@
 import { SLS_CONSTANTS } from "../constants";
 import { type PersistedConfig } from "../types";
-import { StorageFullError, PersistenceError } from "../errors";
+import { StorageFullError, PersistenceError, ValidationError } from "../errors";
+import { bytesToBase64 } from "../utils/base64";
+import { LocalStorageAdapter, type StorageAdapter } from "./StorageAdapter";
 
-function estimateBytes(s: string): number {
+export function estimateBytes(s: string): number {
   try { return new Blob([s]).size; } catch { return s.length; }
 }
 
-export class StorageService {
+/** Detect quota-exhaustion errors across browsers (Web Storage and IndexedDB). */
+export function isQuotaExceeded(err: unknown): boolean {
+  const e = err as { name?: string; code?: number; message?: string };
+  const name = e?.name ?? "";
+  const msg = e?.message ?? "";
+  const code = e?.code;
+
+  return (
+    name === "QuotaExceededError" ||
+    name === "NS_ERROR_DOM_QUOTA_REACHED" ||
+    code === 22 ||            // legacy Safari / WebKit
+    code === 1014 ||          // Firefox DOMException
+    /quota/i.test(msg)        // generic safety net
+  );
+}
+
+/**
+ * Persistence contract for the serialized config.
+ * Implemented by {@link StorageService} (key/value adapters) and {@link IndexedDbDataStore}.
+ */
+export interface ConfigStore {
+  get(): Promise<PersistedConfig | null>;
+  /** Best-effort serialized form of whatever is stored (even if it does not parse). `null` if nothing is stored. */
+  getRaw(): Promise<string | null>;
+  set(cfg: PersistedConfig): Promise<void>;
+  clear(): Promise<void>;
+  /** Complete or roll back a half-finished write left by a crash (stores without a journal omit this). */
+  recover?(isValid: (cfg: PersistedConfig) => boolean): Promise<JournalRecovery>;
+}
+
+/**
+ * Outcome of {@link ConfigStore.recover}:
+ * - `"none"` — no pending journal.
+ * - `"rolled-forward"` — a complete, valid journal was swapped in.
+ * - `"rolled-back"` — an incomplete or invalid journal was discarded; the previous config is kept.
+ */
+export type JournalRecovery = "none" | "rolled-forward" | "rolled-back";
+
+/**
+ * Manifest stored under the primary key when the serialized config is split across several entries.
+ * Chunks live under `${key}#0 .. ${key}#(count-1)`.
+ */
+interface ChunkManifest {
+  slsChunks: 1;
+  count: number;
+  length: number;  // total serialized length (chars)
+  sha256: string;  // base64 SHA-256 of the joined payload
+}
+
+function isChunkManifest(v: unknown): v is ChunkManifest {
+  const m = v as Partial<ChunkManifest> | null;
+  return (
+    !!m &&
+    typeof m === "object" &&
+    m.slsChunks === 1 &&
+    Number.isInteger(m.count) && (m.count as number) > 0 &&
+    Number.isInteger(m.length) &&
+    typeof m.sha256 === "string"
+  );
+}
+
+async function sha256B64(s: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(s));
+  return bytesToBase64(digest);
+}
+
+export interface StorageServiceOptions {
+  /**
+   * Maximum characters per stored value. Larger payloads are split across `${key}#0..n`
+   * plus a manifest under `key`. `undefined` disables chunking.
+   */
+  chunkSize?: number;
+
+  /**
+   * Two-phase writes: stage the payload under `${key}#journal`, verify it, swap it into `key`,
+   * then drop the journal. See {@link StorageService.recover}.
+   */
+  journal?: boolean;
+}
+
+export class StorageService implements ConfigStore {
   private key: string;
+  private adapter: StorageAdapter;
+  private chunkSize: number | undefined;
+  private journal: boolean;
 
-  constructor(key: string = SLS_CONSTANTS.STORAGE_KEY) {
+  constructor(
+    key: string = SLS_CONSTANTS.STORAGE_KEY,
+    adapter: StorageAdapter = new LocalStorageAdapter(),
+    opts?: StorageServiceOptions
+  ) {
+    if (opts?.chunkSize !== undefined && (!Number.isInteger(opts.chunkSize) || opts.chunkSize < 1)) {
+      throw new ValidationError("chunkSize must be a positive integer");
+    }
     this.key = key;
+    this.adapter = adapter;
+    this.chunkSize = opts?.chunkSize;
+    this.journal = opts?.journal ?? false;
   }
 
-  get(): PersistedConfig | null {
-    const raw = localStorage.getItem(this.key);
+  async get(): Promise<PersistedConfig | null> {
+    const raw = await this.readEntry(this.key);
     if (!raw) return null;
     try { return JSON.parse(raw) as PersistedConfig; } catch { return null; }
   }
 
-  _isQuotaExceeded(err: unknown): boolean {
-    const e = err as { name?: string; code?: number; message?: string };
-    const name = e?.name ?? "";
-    const msg = e?.message ?? "";
-    const code = e?.code;
+  async getRaw(): Promise<string | null> {
+    return (await this.readEntry(this.key)) ?? (await this.adapter.getItem(this.key));
+  }
 
-    return (
-      name === "QuotaExceededError" ||
-      name === "NS_ERROR_DOM_QUOTA_REACHED" ||
-      code === 22 ||            // legacy Safari / WebKit
-      code === 1014 ||          // Firefox DOMException
-      /quota/i.test(msg)        // generic safety net
-    );
+  _isQuotaExceeded(err: unknown): boolean {
+    return isQuotaExceeded(err);
   }
 
-  set(cfg: PersistedConfig): void {
+  async set(cfg: PersistedConfig): Promise<void> {
     const serialized = JSON.stringify(cfg);
     try {
-      localStorage.setItem(this.key, serialized);
-      const check = localStorage.getItem(this.key);
-      if (check !== serialized) {
-        throw new PersistenceError("Failed to persist data (integrity check)");
+      if (this.journal) {
+        await this.writeEntry(this.journalKey(), serialized);
+        await this.commitJournal(serialized);
+      } else {
+        await this.writeEntry(this.key, serialized);
       }
     } catch (e) {
       if (this._isQuotaExceeded(e)) {
-        throw new StorageFullError(`localStorage quota exceeded (${estimateBytes(serialized)} bytes)`);
+        throw new StorageFullError(`Storage quota exceeded (${estimateBytes(serialized)} bytes)`);
       }
       const msg = (e as Error)?.message ?? String(e);
       throw new PersistenceError(`Failed to persist data: ${msg}`);
     }
   }
 
-  clear(): void {
-    try { localStorage.removeItem(this.key); } catch { /* ignore */ }
+  async clear(): Promise<void> {
+    try { await this.removeEntry(this.journalKey()); } catch { /* ignore */ }
+    try { await this.removeEntry(this.key); } catch { /* ignore */ }
+  }
+
+  /**
+   * Resolve a journal left behind by an interrupted {@link set}.
+   *
+   * A journal that reassembles, parses and passes `isValid` is rolled forward into the primary key;
+   * anything else is discarded and the primary entry is left untouched.
+   */
+  async recover(isValid: (cfg: PersistedConfig) => boolean): Promise<JournalRecovery> {
+    const jKey = this.journalKey();
+    if ((await this.adapter.getItem(jKey)) === null) return "none";
+
+    const staged = await this.readEntry(jKey);
+    let parsed: PersistedConfig | null = null;
+    if (staged) {
+      try { parsed = JSON.parse(staged) as PersistedConfig; } catch { parsed = null; }
+    }
+
+    if (!staged || !parsed || !isValid(parsed)) {
+      await this.removeEntry(jKey);
+      return "rolled-back";
+    }
+
+    try {
+      await this.commitJournal(staged);
+    } catch (e) {
+      if (this._isQuotaExceeded(e)) {
+        throw new StorageFullError(`Storage quota exceeded (${estimateBytes(staged)} bytes)`);
+      }
+      const msg = (e as Error)?.message ?? String(e);
+      throw new PersistenceError(`Failed to recover journal: ${msg}`);
+    }
+    return "rolled-forward";
+  }
+
+  // --------------------------- private helpers ---------------------------
+
+  private journalKey(): string {
+    return `${this.key}#journal`;
+  }
+
+  /**
+   * Swap a verified journal payload into the primary key and drop the journal.
+   * If the swap fails but the primary entry is still intact, the journal is discarded (roll back);
+   * if the primary entry was damaged, the journal is kept so {@link recover} can complete it.
+   */
+  private async commitJournal(serialized: string): Promise<void> {
+    try {
+      await this.writeEntry(this.key, serialized);
+    } catch (e) {
+      const current = await this.readEntry(this.key).catch(() => null);
+      let intact = false;
+      if (current !== null) {
+        try { JSON.parse(current); intact = true; } catch { intact = false; }
+      }
+      if (intact) {
+        try { await this.removeEntry(this.journalKey()); } catch { /* best effort */ }
+      }
+      throw e;
+    }
+    await this.removeEntry(this.journalKey());
+  }
+
+  private chunkKey(base: string, i: number): string {
+    return `${base}#${i}`;
+  }
+
+  /** Number of chunks referenced by the manifest currently stored under `base` (0 if unchunked). */
+  private async chunkCount(base: string): Promise<number> {
+    const raw = await this.adapter.getItem(base);
+    if (!raw) return 0;
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+      return isChunkManifest(parsed) ? parsed.count : 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /** Read the serialized payload under `base`, reassembling and verifying chunks. `null` if absent or inconsistent. */
+  private async readEntry(base: string): Promise<string | null> {
+    const raw = await this.adapter.getItem(base);
+    if (!raw) return null;
+
+    let manifest: unknown;
+    try { manifest = JSON.parse(raw); } catch { return raw; }
+    if (!isChunkManifest(manifest)) return raw;
+
+    const parts: string[] = [];
+    for (let i = 0; i < manifest.count; i++) {
+      const part = await this.adapter.getItem(this.chunkKey(base, i));
+      if (part === null) return null;
+      parts.push(part);
+    }
+    const joined = parts.join("");
+    if (joined.length !== manifest.length) return null;
+    if ((await sha256B64(joined)) !== manifest.sha256) return null;
+    return joined;
+  }
+
+  /** Write `serialized` under `base` (chunked when configured), verify by read-back, then drop stale chunks. */
+  private async writeEntry(base: string, serialized: string): Promise<void> {
+    const previousCount = await this.chunkCount(base);
+    let count = 0;
+
+    if (this.chunkSize !== undefined && serialized.length > this.chunkSize) {
+      count = Math.ceil(serialized.length / this.chunkSize);
+      for (let i = 0; i < count; i++) {
+        const part = serialized.slice(i * this.chunkSize, (i + 1) * this.chunkSize);
+        await this.adapter.setItem(this.chunkKey(base, i), part);
+      }
+      const manifest: ChunkManifest = {
+        slsChunks: 1,
+        count,
+        length: serialized.length,
+        sha256: await sha256B64(serialized)
+      };
+      await this.adapter.setItem(base, JSON.stringify(manifest));
+    } else {
+      await this.adapter.setItem(base, serialized);
+    }
+
+    const check = await this.readEntry(base);
+    if (check !== serialized) {
+      throw new PersistenceError("Failed to persist data (integrity check)");
+    }
+
+    for (let i = count; i < previousCount; i++) {
+      try { await this.adapter.removeItem(this.chunkKey(base, i)); } catch { /* best effort */ }
+    }
+  }
+
+  /** Remove the entry under `base` together with any chunks it references. */
+  private async removeEntry(base: string): Promise<void> {
+    const count = await this.chunkCount(base);
+    await this.adapter.removeItem(base);
+    for (let i = 0; i < count; i++) {
+      try { await this.adapter.removeItem(this.chunkKey(base, i)); } catch { /* best effort */ }
+    }
   }
 }
\ No newline at end of file
@@ -26,6 +26,112 @@ export interface HeaderV3 {
    * - "export" => exported bundle (portable, not bound to storageKey)
    */
   ctx?: "store" | "export";
+  /**
+   * Additional wraps of the same DEK (master-password stores only). The data AAD stays bound to the
+   * primary `iv`/`wrappedKey`, so slots can be added or removed without re-encrypting data.
+   */
+  slots?: KeySlot[];
+}
+
+/** Password KDFs a header can record. */
+export type KdfAlgorithm = "argon2id" | "pbkdf2-sha256";
+
+/** Argon2id parameters used to derive a password KEK, recorded in v4 headers. */
+export interface Argon2idKdf {
+  alg: "argon2id";
+  time: number;        // iterations
+  memKiB: number;      // memory cost in KiB
+  parallelism: number;
+  hashLen: number;     // bytes (32 for AES-256)
+}
+
+/** WebCrypto PBKDF2-HMAC-SHA-256 fallback for hosts where the Argon2 WASM cannot load (e.g. strict CSP). */
+export interface Pbkdf2Kdf {
+  alg: "pbkdf2-sha256";
+  time: number;        // iterations
+  hashLen: number;     // bytes (32 for AES-256)
+}
+
+export type KdfDescriptor = Argon2idKdf | Pbkdf2Kdf;
+
+/**
+ * Per-instance KDF for new password wraps (see the `kdf` option); omitted fields use the defaults of `alg`
+ * (Argon2id unless stated). `memKiB` and `parallelism` only apply to Argon2id.
+ */
+export interface KdfOptions {
+  alg?: KdfAlgorithm;
+  time?: number;
+  memKiB?: number;
+  parallelism?: number;
+}
+
+/** Result of `calibrateKdf()`: Argon2id parameters plus the time one derivation took on this device. */
+export interface KdfCalibration extends Argon2idKdf {
+  estimatedMs: number;
+}
+
+export interface HeaderV4 {
+  v: 4;
+  salt: string;        // base64 salt ("" for device mode)
+  rounds: number;      // 1 for device mode; equals kdf.time for master
+  iv: string;          // base64 (wrap IV)
+  wrappedKey: string;  // base64 (wrapped DEK)
+  mPw?: boolean;       // optional, same semantics as v2 for exports
+  ctx?: "store" | "export"; // same semantics as v3
+  /** KDF behind `salt` (password-protected headers only); v2/v3 headers imply the legacy Argon2 constants. */
+  kdf?: KdfDescriptor;
+  slots?: KeySlot[];   // same semantics as v3
+}
+
+/**
+ * Same fields as v4. The wrap AAD canonically encodes every header field except `iv`, `wrappedKey` and `slots`,
+ * and the data AAD adds `iv`/`wrappedKey`, so no header field can be changed without failing authentication.
+ */
+export interface HeaderV5 {
+  v: 5;
+  salt: string;
+  rounds: number;
+  iv: string;
+  wrappedKey: string;
+  mPw?: boolean;
+  ctx?: "store" | "export";
+  kdf?: KdfDescriptor;
+  rev?: number;        // bumped on every persist; bound by the data AAD only (see KekProvider.getRevision)
+  kc?: string;         // key-commitment tag of a password KEK over the wrap AAD (see keyCommitment option)
+  kcv?: string;        // key check value of the password KEK (tells a wrong password from corrupted data)
+  slots?: KeySlot[];   // each slot authenticates its own fields (see KeySlot.v)
+}
+
+/**
+ * Kind of secret behind a key slot:
+ * - `"password"` — Argon2id KEK from an additional password.
+ * - `"device"` — the device KEK of this browser profile (opens the store at startup without a password).
+ * - `"recovery"` — HKDF KEK from a generated recovery code (see `createRecoveryKey()`); at most one per store.
+ * - `"passkey"` — HKDF KEK from a WebAuthn PRF output (see `enrollPasskey()`).
+ */
+export type KeySlotKind = "password" | "device" | "recovery" | "passkey";
+
+/** LUKS-style key slot: the DEK wrapped by another KEK. */
+export interface KeySlot {
+  v?: 5;               // slot AAD format: 5 binds every slot field; absent = v3 (id and kind only)
+  id: string;          // random hex, bound into the slot AAD
+  kind: KeySlotKind;
+  label?: string;
+  salt: string;        // base64 salt ("" for device slots)
+  rounds: number;      // Argon2 iterations (1 for device, recovery and passkey slots)
+  kdf?: KdfDescriptor; // password slots created since v4 (legacy parameters when absent)
+  iv: string;          // base64 (wrap IV)
+  wrappedKey: string;  // base64 (wrapped DEK)
+  credentialId?: string; // base64 WebAuthn credential id (passkey slots only)
+  kcv?: string;        // key check value of the slot KEK (slots wrapped since format v5)
+}
+
+/** Public view of a key slot (see `listKeySlots()`). The primary wrap is reported with id `"primary"`. */
+export interface KeySlotInfo {
+  id: string;
+  kind: KeySlotKind;
+  label?: string;
+  primary: boolean;
 }
 
 export interface PersistedConfigV2 {
@@ -38,4 +144,71 @@ export interface PersistedConfigV3 {
   data: EncryptedBlob;
 }
 
-export type PersistedConfig = PersistedConfigV2 | PersistedConfigV3;
\ No newline at end of file
+export interface PersistedConfigV4 {
+  header: HeaderV4;
+  data: EncryptedBlob;
+}
+
+export interface PersistedConfigV5 {
+  header: HeaderV5;
+  data: EncryptedBlob;
+}
+
+export type PersistedConfig = PersistedConfigV2 | PersistedConfigV3 | PersistedConfigV4 | PersistedConfigV5;
+
+/**
+ * Why initialization replaced the persisted store:
+ * - `"invalid-config"` — payload failed structural or base64 checks.
+ * - `"device-kek-mismatch"` — the device KEK (current or pending) could not unwrap the DEK.
+ * - `"rollback-detected"` — the envelope is older than the last revision written on this device.
+ */
+export type ResetReason = "invalid-config" | "device-kek-mismatch" | "rollback-detected";
+
+/** Metadata of an envelope moved aside instead of being overwritten (see `quarantine` option). */
+export interface QuarantineInfo {
+  id: string;
+  reason: ResetReason;
+  quarantinedAt: number; // epoch ms
+  size: number;          // serialized length (chars)
+}
+/**
+ * Lifecycle status reported by `getStatus()`:
+ * - `"initializing"` — startup is still reading/migrating the store.
+ * - `"device"` — device mode, ready to use.
+ * - `"locked"` / `"unlocked"` — master-password mode, with or without the session key.
+ * - `"failed"` — initialization rejected (e.g. `strict` mode); see `whenReady()` for the error.
+ */
+export type SlsStatus = "initializing" | "device" | "locked" | "unlocked" | "failed";
+
+/**
+ * Events reported through `on()`:
+ * - `"kdf-upgraded"` — after an unlock, the wrap opened by the password (`slotId` `"primary"` or a password
+ *   key slot) was re-derived with the instance `kdf` because its recorded parameters were weaker.
+ * - `"kdf-upgrade-failed"` — that background upgrade failed; the existing wrap stays valid.
+ */
+export interface SlsEventMap {
+  "kdf-upgraded": { slotId: string; previous: KdfDescriptor; kdf: KdfDescriptor };
+  "kdf-upgrade-failed": { slotId: string; error: unknown };
+}
+
+/** Options for `unlock()`. */
+export interface UnlockOptions {
+  /**
+   * Cancels a pending unlock; the promise rejects with `signal.reason` and the store stays locked. Without the
+   * `kdfWorker` option a running Argon2 derivation is not interrupted: the abort takes effect once it finishes.
+   */
+  signal?: AbortSignal;
+  /**
+   * Called with 0 when unlock starts and with 1 when it settles. Each Argon2id/PBKDF2 run is opaque, so
+   * fractions in between only appear when password key slots are tried (one step per derivation).
+   */
+  onProgress?: (progress: number) => void;
+}
+
+/** Options for `rotateKeys()` in master-password mode. */
+export interface RotateKeysOptions {
+  /** Primary master password; when given, the primary wrap also gets a fresh salt (and the instance `kdf`). */
+  masterPassword?: string;
+  /** Drop password, recovery and passkey slots, which cannot be re-wrapped without their secrets. */
+  dropKeySlots?: boolean;
+}
@@ -0,0 +1,27 @@
+/** Minimal typed listener registry (no DOM `EventTarget` needed, so it also works in workers and tests). */
+export class EventEmitter<M extends object> {
+  private readonly listeners = new Map<keyof M, Set<(payload: never) => void>>();
+
+  /** Register `listener` for `event`; returns a function that removes it again. */
+  on<K extends keyof M>(event: K, listener: (payload: M[K]) => void): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as (payload: never) => void);
+    return () => {
+      set!.delete(listener as (payload: never) => void);
+    };
+  }
+
+  emit<K extends keyof M>(event: K, payload: M[K]): void {
+    for (const listener of [...(this.listeners.get(event) ?? [])]) {
+      try {
+        (listener as (payload: M[K]) => void)(payload);
+      } catch {
+        /* a throwing listener must not break the caller or other listeners */
+      }
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { NotSupportedError } from "../errors";
+
+function request(dbName: string, storeName: string, version?: number): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    try {
+      const req = version === undefined ? indexedDB.open(dbName) : indexedDB.open(dbName, version);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(storeName)) {
+          req.result.createObjectStore(storeName, { keyPath: "id" });
+        }
+      };
+      req.onsuccess = () => {
+        const db = req.result;
+        // Let a later open that adds another object store upgrade this database.
+        db.onversionchange = () => db.close();
+        resolve(db);
+      };
+      req.onerror = () =>
+        reject(new NotSupportedError(req.error?.message ?? "IndexedDB error"));
+    } catch (e) {
+      reject(new NotSupportedError((e as Error)?.message ?? "IndexedDB unavailable"));
+    }
+  });
+}
+
+/**
+ * Open (and lazily create) an IndexedDB database holding an object store keyed by `id`.
+ * A database that exists without `storeName` (e.g. shared with the device KEK store) is upgraded to the next
+ * version to add it. Rejects with {@link NotSupportedError} when IndexedDB is unavailable or refuses the open request.
+ */
+export async function openDB(dbName: string, storeName: string): Promise<IDBDatabase> {
+  const db = await request(dbName, storeName);
+  if (db.objectStoreNames.contains(storeName)) return db;
+  const next = db.version + 1;
+  db.close();
+  return await request(dbName, storeName, next);
+}
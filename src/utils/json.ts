@@ -36,3 +36,12 @@ export function safeParseJson<T>(text: string): T {
     throw new ValidationError("Invalid JSON input");
   }
 }
+
+/** Deterministic JSON for values bound into AAD: object keys sorted, `undefined` members dropped. */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v
+  );
+}
@@ -0,0 +1,6 @@
+/** Random 8-byte identifier as lowercase hex (not secret; used for slot and quarantine ids). */
+export function randomId(): string {
+  const b = new Uint8Array(8);
+  crypto.getRandomValues(b);
+  return Array.from(b, (x) => x.toString(16).padStart(2, "0")).join("");
+}
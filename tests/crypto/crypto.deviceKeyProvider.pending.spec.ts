@@ -0,0 +1,44 @@
+import "../setup";
+import { DeviceKeyProvider } from "../../src/crypto/DeviceKeyProvider";
+
+describe("DeviceKeyProvider - staged rotation", () => {
+  const cfg = { dbName: "SLS_KEYS_PENDING", storeName: "keys", keyId: "deviceKek_pending" };
+
+  beforeEach(async () => {
+    await DeviceKeyProvider.deletePersistent(cfg);
+  });
+
+  it("stageKey() keeps the current key until commitPendingKey()", async () => {
+    const current = await DeviceKeyProvider.getKey(cfg);
+    const staged = await DeviceKeyProvider.stageKey(cfg);
+
+    expect(staged === current).toBe(false);
+    expect(await DeviceKeyProvider.getKey(cfg)).toBe(current);
+    expect(await DeviceKeyProvider.getPendingKey(cfg)).toBe(staged);
+
+    const committed = await DeviceKeyProvider.commitPendingKey(cfg);
+    expect(committed).toBe(staged);
+    expect(await DeviceKeyProvider.getKey(cfg)).toBe(staged);
+    expect(await DeviceKeyProvider.getPendingKey(cfg)).toBeNull();
+  });
+
+  it("discardPendingKey() drops the staged key and keeps the current one", async () => {
+    const current = await DeviceKeyProvider.getKey(cfg);
+    await DeviceKeyProvider.stageKey(cfg);
+    await DeviceKeyProvider.discardPendingKey(cfg);
+
+    expect(await DeviceKeyProvider.getPendingKey(cfg)).toBeNull();
+    expect(await DeviceKeyProvider.getKey(cfg)).toBe(current);
+  });
+
+  it("commitPendingKey() without a pending key returns the current key", async () => {
+    const current = await DeviceKeyProvider.getKey(cfg);
+    expect(await DeviceKeyProvider.commitPendingKey(cfg)).toBe(current);
+  });
+
+  it("deletePersistent() also removes a pending key", async () => {
+    await DeviceKeyProvider.stageKey(cfg);
+    await DeviceKeyProvider.deletePersistent(cfg);
+    expect(await DeviceKeyProvider.getPendingKey(cfg)).toBeNull();
+  });
+});
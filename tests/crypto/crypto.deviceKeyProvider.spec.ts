@@ -62,8 +62,8 @@ describe("DeviceKeyProvider – idbConfig plumbing & isolation", () => {
     expect(sawCfg).toBe(true);
   });
 
-  it("forwards idbConfig to rotateKeys() -> DeviceKeyProvider.rotateKey()", async () => {
-    const spyRotate = jest.spyOn(DeviceKeyProvider, "rotateKey");
+  it("forwards idbConfig to rotateKeys() -> DeviceKeyProvider.stageKey()", async () => {
+    const spyRotate = jest.spyOn(DeviceKeyProvider, "stageKey");
 
     const sls = secureLocalStorage({
       storageKey: "test:plumb:rotate",
@@ -71,7 +71,7 @@ describe("DeviceKeyProvider – idbConfig plumbing & isolation", () => {
     });
 
     await sls.setData({ v: 1 });
-    await sls.rotateKeys(); // device mode only; uses DeviceKeyProvider.rotateKey under the hood
+    await sls.rotateKeys(); // device mode only; stages a pending KEK via DeviceKeyProvider.stageKey
 
     const sawCfg = spyRotate.mock.calls.some((args) => {
       const p = (args[0] ?? {}) as Partial<{ dbName: string; storeName: string; keyId: string }>;
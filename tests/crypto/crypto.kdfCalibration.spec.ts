@@ -0,0 +1,52 @@
+import "./../setup";
+import { calibrateKdf } from "../../src/crypto/KeyDerivation";
+import { SLS_CONSTANTS } from "../../src/constants";
+import { ValidationError } from "../../src/errors";
+// No types for the mock; treat as any
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore
+import * as argon2 from "argon2-browser";
+
+describe("calibrateKdf", () => {
+  let clock = 0;
+  let hashSpy: ReturnType<typeof jest.spyOn>;
+  let nowSpy: ReturnType<typeof jest.spyOn>;
+
+  // Simulated device: 1 ms per iteration per MiB.
+  beforeEach(() => {
+    clock = 0;
+    hashSpy = jest.spyOn(argon2, "hash").mockImplementation(async (o: any) => {
+      clock += o.time * (o.mem / 1024);
+      return { hash: new Uint8Array(o.hashLen) };
+    });
+    nowSpy = jest.spyOn(performance, "now").mockImplementation(() => clock);
+  });
+
+  afterEach(() => {
+    hashSpy.mockRestore();
+    nowSpy.mockRestore();
+  });
+
+  it("scales iterations to the target at the memory ceiling", async () => {
+    const r = await calibrateKdf({ targetMs: 640, maxMemKiB: 64 * 1024 });
+    expect(r).toMatchObject({ alg: "argon2id", memKiB: 64 * 1024, time: 10, parallelism: 1, hashLen: 32 });
+    expect(r.estimatedMs).toBe(640);
+  });
+
+  it("lowers memory when the minimum iteration count would overshoot", async () => {
+    const r = await calibrateKdf({ targetMs: 36, maxMemKiB: 64 * 1024 });
+    expect(r.memKiB).toBe(16 * 1024);
+    expect(r.time).toBe(SLS_CONSTANTS.ARGON2.MIN_ITERATIONS);
+  });
+
+  it("never goes below the minimums", async () => {
+    const r = await calibrateKdf({ targetMs: 1 });
+    expect(r.memKiB).toBe(SLS_CONSTANTS.ARGON2.MIN_MEMORY_KIB);
+    expect(r.time).toBe(SLS_CONSTANTS.ARGON2.MIN_ITERATIONS);
+  });
+
+  it("validates its input", async () => {
+    await expect(calibrateKdf({ targetMs: 0 })).rejects.toBeInstanceOf(ValidationError);
+    await expect(calibrateKdf({ targetMs: 500, maxMemKiB: 1024 })).rejects.toBeInstanceOf(ValidationError);
+  });
+});
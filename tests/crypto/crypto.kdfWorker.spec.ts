@@ -0,0 +1,99 @@
+import "./../setup";
+import { KdfWorker, handleKdfRequest, type KdfWorkerRequest } from "../../src/crypto/KdfWorker";
+import { deriveKekFromPassword, defaultKdf } from "../../src/crypto/KeyDerivation";
+import { CryptoError, KdfUnavailableError } from "../../src/errors";
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore
+import * as argon2 from "argon2-browser";
+
+/** In-process stand-in for the worker bundle: same handler, asynchronous replies, terminate() drops them. */
+class FakeWorker {
+  static started = 0;
+  onmessage: ((e: { data: unknown }) => void) | null = null;
+  onerror: ((e: unknown) => void) | null = null;
+  terminated = false;
+  received: KdfWorkerRequest[] = [];
+
+  constructor() {
+    FakeWorker.started++;
+  }
+
+  postMessage(req: KdfWorkerRequest) {
+    this.received.push(req);
+    setTimeout(async () => {
+      const res = await handleKdfRequest(req);
+      if (!this.terminated) this.onmessage?.({ data: res });
+    }, 5);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const kdf = { ...defaultKdf(), time: 2, memKiB: 8 * 1024 };
+
+describe("KdfWorker", () => {
+  it("derives the same KEK as the inline path and imports it as non-extractable", async () => {
+    const worker = new KdfWorker(() => new FakeWorker() as unknown as Worker);
+    const salt = new Uint8Array(16);
+    const viaWorker = await deriveKekFromPassword("pw", salt, kdf, { worker });
+    const inline = await deriveKekFromPassword("pw", salt, kdf);
+    expect(viaWorker.extractable).toBe(false);
+
+    const dek = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt"]);
+    const iv = new Uint8Array(12);
+    const wrapped = await crypto.subtle.wrapKey("raw", dek, viaWorker, { name: "AES-GCM", iv });
+    await expect(
+      crypto.subtle.unwrapKey("raw", wrapped, inline, { name: "AES-GCM", iv }, "AES-GCM", false, ["encrypt"])
+    ).resolves.toBeDefined();
+  });
+
+  it("terminates the worker on abort and replays the other pending requests", async () => {
+    const workers: FakeWorker[] = [];
+    const client = new KdfWorker(() => {
+      const w = new FakeWorker();
+      workers.push(w);
+      return w as unknown as Worker;
+    });
+    const ctl = new AbortController();
+    const aborted = client.hash("a", new Uint8Array(16), kdf, ctl.signal);
+    const other = client.hash("b", new Uint8Array(16), kdf);
+    ctl.abort();
+
+    await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+    await expect(other).resolves.toBeInstanceOf(Uint8Array);
+    expect(workers.length).toBe(2);
+    expect(workers[0]!.terminated).toBe(true);
+    expect(workers[1]!.received.map((r) => r.password)).toEqual(["b"]);
+  });
+
+  it("rejects immediately for an already aborted signal without starting a worker", async () => {
+    const before = FakeWorker.started;
+    const client = new KdfWorker(() => new FakeWorker() as unknown as Worker);
+    await expect(client.hash("pw", new Uint8Array(16), kdf, AbortSignal.abort())).rejects.toMatchObject({ name: "AbortError" });
+    expect(FakeWorker.started).toBe(before);
+  });
+
+  it("maps worker failures to library errors", async () => {
+    const client = new KdfWorker(() => new FakeWorker() as unknown as Worker);
+    const spy = jest.spyOn(argon2, "hash")
+      .mockRejectedValueOnce(new WebAssembly.CompileError("blocked"))
+      .mockRejectedValueOnce(new Error("boom"));
+    await expect(client.hash("pw", new Uint8Array(16), kdf)).rejects.toBeInstanceOf(KdfUnavailableError);
+    await expect(client.hash("pw", new Uint8Array(16), kdf)).rejects.toBeInstanceOf(CryptoError);
+    spy.mockRestore();
+  });
+
+  it("rejects pending requests with KdfUnavailableError when the worker script fails to load", async () => {
+    let worker: FakeWorker | undefined;
+    const client = new KdfWorker(() => {
+      worker = new FakeWorker();
+      worker.terminated = true; // never replies
+      return worker as unknown as Worker;
+    });
+    const pending = client.hash("pw", new Uint8Array(16), kdf);
+    worker!.onerror!({ message: "404" });
+    await expect(pending).rejects.toBeInstanceOf(KdfUnavailableError);
+  });
+});
@@ -0,0 +1,35 @@
+import "./../setup";
+import { keyCheckValue, keyCommitment, verifyKeyCheckValue, verifyKeyCommitment } from "../../src/crypto/KeyCommitment";
+
+function kek(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["wrapKey", "unwrapKey"]) as Promise<CryptoKey>;
+}
+
+describe("KeyCommitment", () => {
+  const aad = new TextEncoder().encode("sls|wrap|v5|k|{}");
+
+  it("is deterministic per key and AAD", async () => {
+    const a = await kek();
+    const tag = await keyCommitment(a, aad);
+    expect(await keyCommitment(a, aad)).toBe(tag);
+    expect(await verifyKeyCommitment(a, aad, tag)).toBe(true);
+    expect(await verifyKeyCommitment(a, new TextEncoder().encode("other"), tag)).toBe(false);
+  });
+
+  it("does not verify under another key or for malformed tags", async () => {
+    const a = await kek();
+    const b = await kek();
+    const tag = await keyCommitment(a, aad);
+    expect(await verifyKeyCommitment(b, aad, tag)).toBe(false);
+    expect(await verifyKeyCommitment(a, aad, "not base64!")).toBe(false);
+  });
+
+  it("derives a key check value that is independent of the commitment tag", async () => {
+    const a = await kek();
+    const kcv = await keyCheckValue(a);
+    expect(kcv).not.toBe(await keyCommitment(a, aad));
+    expect(await verifyKeyCheckValue(a, kcv)).toBe(true);
+    expect(await verifyKeyCheckValue(await kek(), kcv)).toBe(false);
+    expect(await verifyKeyCheckValue(a, "not base64!")).toBe(false);
+  });
+});
@@ -1,6 +1,7 @@
 import "./../setup";
-import { deriveKekFromPassword } from "../../src/crypto/KeyDerivation";
-import { CryptoError, ValidationError } from "../../src/errors";
+import { deriveKekFromPassword, isWeakerKdf, kdfFromOptions } from "../../src/crypto/KeyDerivation";
+import { CryptoError, KdfUnavailableError, ValidationError } from "../../src/errors";
+import { SLS_CONSTANTS } from "../../src/constants";
 // No types for the mock; treat as any
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
 // @ts-ignore
@@ -33,4 +34,85 @@ describe("KeyDerivation - extra input validation", () => {
   it("rejects unreasonably high iteration counts", async () => {
     await expect(deriveKekFromPassword("pw", new Uint8Array(16), 10_000)).rejects.toBeInstanceOf(ValidationError);
   });
-});
\ No newline at end of file
+});
+
+describe("KeyDerivation - KDF descriptors", () => {
+  const base = { alg: "argon2id" as const, time: 2, memKiB: 1024, parallelism: 1, hashLen: 32 };
+
+  it("derives different keys for different descriptors", async () => {
+    const aad = new TextEncoder().encode("probe");
+    const salt = new Uint8Array(16);
+    const a = await deriveKekFromPassword("pw", salt, base);
+    const b = await deriveKekFromPassword("pw", salt, { ...base, memKiB: 2048 });
+    const dek = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt"]);
+    const iv = new Uint8Array(12);
+    const wrapped = await crypto.subtle.wrapKey("raw", dek, a, { name: "AES-GCM", iv, additionalData: aad });
+    await expect(
+      crypto.subtle.unwrapKey("raw", wrapped, b, { name: "AES-GCM", iv, additionalData: aad }, "AES-GCM", false, ["encrypt"])
+    ).rejects.toBeDefined();
+  });
+
+  it("treats a bare iteration count as the legacy descriptor", async () => {
+    const spy = jest.spyOn(argon2, "hash");
+    await deriveKekFromPassword("pw", new Uint8Array(16), 3);
+    expect(spy.mock.calls.at(-1)![0]).toMatchObject({ time: 3, mem: 64 * 1024, parallelism: 1, hashLen: 32 });
+    spy.mockRestore();
+  });
+
+  it("rejects malformed or out-of-range descriptors", async () => {
+    const salt = new Uint8Array(16);
+    for (const bad of [
+      { ...base, time: 0 },
+      { ...base, parallelism: 0 },
+      { ...base, memKiB: 4 },
+      { ...base, memKiB: 4 * 1024 * 1024 },
+      { ...base, hashLen: 16 }
+    ]) {
+      await expect(deriveKekFromPassword("pw", salt, bad as any)).rejects.toBeInstanceOf(ValidationError);
+    }
+  });
+});
+
+describe("KeyDerivation - PBKDF2 fallback", () => {
+  const pbkdf2 = { alg: "pbkdf2-sha256" as const, time: 1000, hashLen: 32 };
+
+  it("derives a usable wrapping key without Argon2", async () => {
+    const spy = jest.spyOn(argon2, "hash");
+    const salt = new Uint8Array(16);
+    const a = await deriveKekFromPassword("pw", salt, pbkdf2);
+    const b = await deriveKekFromPassword("pw", salt, pbkdf2);
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+
+    const dek = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt"]);
+    const iv = new Uint8Array(12);
+    const wrapped = await crypto.subtle.wrapKey("raw", dek, a, { name: "AES-GCM", iv });
+    await expect(
+      crypto.subtle.unwrapKey("raw", wrapped, b, { name: "AES-GCM", iv }, "AES-GCM", false, ["encrypt"])
+    ).resolves.toBeDefined();
+  });
+
+  it("reports a missing Argon2 WASM as KdfUnavailableError", async () => {
+    const spy = jest.spyOn(argon2, "hash").mockRejectedValueOnce(new WebAssembly.CompileError("blocked by CSP"));
+    await expect(deriveKekFromPassword("pw", new Uint8Array(16))).rejects.toBeInstanceOf(KdfUnavailableError);
+    spy.mockRestore();
+  });
+
+  it("reports an unknown algorithm as KdfUnavailableError", async () => {
+    await expect(
+      deriveKekFromPassword("pw", new Uint8Array(16), { ...pbkdf2, alg: "scrypt" } as any)
+    ).rejects.toBeInstanceOf(KdfUnavailableError);
+  });
+
+  it("builds PBKDF2 descriptors from options", () => {
+    expect(kdfFromOptions({ alg: "pbkdf2-sha256" })).toEqual({
+      alg: "pbkdf2-sha256",
+      time: SLS_CONSTANTS.PBKDF2.ITERATIONS,
+      hashLen: 32
+    });
+    expect(() => kdfFromOptions({ alg: "pbkdf2-sha256", time: 1000 })).toThrow(ValidationError);
+    expect(() => kdfFromOptions({ alg: "pbkdf2-sha256", memKiB: 8192 })).toThrow(ValidationError);
+    expect(isWeakerKdf(kdfFromOptions({ alg: "pbkdf2-sha256" }), kdfFromOptions())).toBe(true);
+    expect(isWeakerKdf(kdfFromOptions(), kdfFromOptions({ alg: "pbkdf2-sha256" }))).toBe(false);
+  });
+});
@@ -0,0 +1,31 @@
+import "./../setup";
+import { deriveKekFromRecoveryCode, generateRecoveryCode, parseRecoveryCode } from "../../src/crypto/RecoveryKey";
+import { ValidationError } from "../../src/errors";
+
+describe("RecoveryKey", () => {
+  it("formats 160 bits as eight groups of base32 and parses them back", () => {
+    const { code, bytes } = generateRecoveryCode();
+    expect(code).toMatch(/^[A-Z2-7]{4}(-[A-Z2-7]{4}){7}$/);
+    expect(Array.from(parseRecoveryCode(code))).toEqual(Array.from(bytes));
+  });
+
+  it("ignores case, whitespace, dashes and look-alike digits", () => {
+    const { code, bytes } = generateRecoveryCode();
+    const typed = code.toLowerCase().replace(/-/g, " ").replace(/o/g, "0").replace(/i/g, "1").replace(/b/g, "8");
+    expect(Array.from(parseRecoveryCode(typed))).toEqual(Array.from(bytes));
+  });
+
+  it("rejects malformed codes", () => {
+    expect(() => parseRecoveryCode("ABCD-EFGH")).toThrow(ValidationError);
+    expect(() => parseRecoveryCode("A".repeat(31) + "9")).toThrow(ValidationError);
+    expect(() => parseRecoveryCode(undefined as unknown as string)).toThrow(ValidationError);
+  });
+
+  it("derives a non-extractable wrapping key and validates the salt", async () => {
+    const { bytes } = generateRecoveryCode();
+    const kek = await deriveKekFromRecoveryCode(bytes, new Uint8Array(16));
+    expect(kek.extractable).toBe(false);
+    expect(kek.usages.sort()).toEqual(["unwrapKey", "wrapKey"]);
+    await expect(deriveKekFromRecoveryCode(bytes, new Uint8Array(4))).rejects.toBeInstanceOf(ValidationError);
+  });
+});
@@ -0,0 +1,42 @@
+import "./../setup";
+import { deriveKekFromPrf, NavigatorPrfAuthenticator, WebAuthnPrfKekProvider } from "../../src/crypto/WebAuthnPrf";
+import { NotSupportedError, ValidationError } from "../../src/errors";
+
+describe("WebAuthnPrf", () => {
+  it("derives the same non-extractable KEK for the same PRF output and salt", async () => {
+    const output = new Uint8Array(32).fill(7);
+    const salt = new Uint8Array(16).fill(1);
+    const kek = await deriveKekFromPrf(output, salt);
+    expect(kek.extractable).toBe(false);
+
+    const dek = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt"]);
+    const iv = new Uint8Array(12);
+    const wrapped = await crypto.subtle.wrapKey("raw", dek, kek, { name: "AES-GCM", iv });
+    const again = await deriveKekFromPrf(output, salt);
+    await expect(
+      crypto.subtle.unwrapKey("raw", wrapped, again, { name: "AES-GCM", iv }, "AES-GCM", false, ["decrypt"])
+    ).resolves.toBeDefined();
+
+    await expect(deriveKekFromPrf(new Uint8Array(8), salt)).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it("WebAuthnPrfKekProvider evaluates the PRF once and caches the KEK until deletePersistent()", async () => {
+    const evaluate = jest.fn(async () => ({ credentialId: new Uint8Array([1]), output: new Uint8Array(32).fill(3) }));
+    const authenticator = { register: async () => new Uint8Array([1]), evaluate };
+    const { credentialId, salt } = await WebAuthnPrfKekProvider.enroll(authenticator, { rpName: "rp", userName: "u" });
+    const provider = new WebAuthnPrfKekProvider(authenticator, credentialId, salt);
+
+    const k1 = await provider.getKey();
+    expect(await provider.getKey()).toBe(k1);
+    expect(evaluate).toHaveBeenCalledTimes(1);
+
+    await provider.deletePersistent();
+    await provider.getKey();
+    expect(evaluate).toHaveBeenCalledTimes(2);
+  });
+
+  it("NavigatorPrfAuthenticator reports missing WebAuthn as NotSupportedError", async () => {
+    const auth = new NavigatorPrfAuthenticator();
+    await expect(auth.register({ rpName: "rp", userName: "u" })).rejects.toBeInstanceOf(NotSupportedError);
+  });
+});
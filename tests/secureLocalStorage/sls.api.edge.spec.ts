@@ -1,6 +1,6 @@
 import "./../setup";
 import secureLocalStorage from "../../src";
-import { ImportError, LockedError, ModeError, ValidationError } from "../../src/errors";
+import { ImportError, InvalidPasswordError, LockedError, ModeError, ValidationError } from "../../src/errors";
 
 describe("SecureLocalStorage API - additional edge cases", () => {
   it("unlock() without any stored data throws ImportError", async () => {
@@ -27,6 +27,7 @@ describe("SecureLocalStorage API - additional edge cases", () => {
     await sls.setData({ v: 1 });
     await sls.setMasterPassword("old");
     await expect(sls.rotateMasterPassword("not-old", "new")).rejects.toBeInstanceOf(ValidationError);
+    await expect(sls.rotateMasterPassword("not-old", "new")).rejects.toBeInstanceOf(InvalidPasswordError);
   });
 
   it("export with custom password in master mode imports into device mode", async () => {
@@ -12,9 +12,9 @@ describe("corruption / recovery paths", () => {
 
     // Corrupt stored data: clear iv & ciphertext
     const svc = new StorageService(storageKey);
-    const cfg = svc.get()!;
+    const cfg = (await svc.get())!;
     cfg.data = { iv: "", ciphertext: "" };
-    svc.set(cfg);
+    await svc.set(cfg);
 
     const sls2 = secureLocalStorage({ storageKey });
     const view = await sls2.getData<Record<string, unknown>>();
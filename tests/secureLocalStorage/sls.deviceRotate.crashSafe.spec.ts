@@ -0,0 +1,65 @@
+import "../setup";
+import secureLocalStorage from "../../src";
+import { DeviceKeyProvider } from "../../src/crypto/DeviceKeyProvider";
+import { MemoryStorageAdapter } from "../../src/storage/StorageAdapter";
+
+describe("rotateKeys() - crash safety", () => {
+  const idbConfig = { dbName: "SLS_KEYS_ROTATE_CRASH", storeName: "keys", keyId: "deviceKek_rotate_crash" };
+
+  beforeEach(async () => {
+    await DeviceKeyProvider.deletePersistent(idbConfig);
+    jest.restoreAllMocks();
+  });
+
+  it("recovers with the pending KEK when the tab dies after the envelope was written", async () => {
+    const storageKey = "test:rotate:crash:after-persist";
+    const storage = new MemoryStorageAdapter();
+    const sls = secureLocalStorage({ storageKey, storage, idbConfig });
+    await sls.setData({ v: 1 });
+    const oldKek = await DeviceKeyProvider.getKey(idbConfig);
+
+    // Crash between persisting the re-wrapped envelope and committing the new KEK
+    jest.spyOn(DeviceKeyProvider, "commitPendingKey").mockImplementationOnce(async () => {
+      throw new Error("tab crashed");
+    });
+    await expect(sls.rotateKeys()).rejects.toThrow("tab crashed");
+    expect(await DeviceKeyProvider.getKey(idbConfig)).toBe(oldKek);
+
+    const sls2 = secureLocalStorage({ storageKey, storage, idbConfig });
+    const view = await sls2.getData<{ v: number }>();
+    expect(sls2.lastResetReason).toBeNull();
+    expect(view.v).toBe(1);
+    view.clear();
+
+    // The pending key was promoted
+    expect((await DeviceKeyProvider.getKey(idbConfig)) === oldKek).toBe(false);
+    expect(await DeviceKeyProvider.getPendingKey(idbConfig)).toBeNull();
+  });
+
+  it("keeps the current KEK and discards the pending one when the envelope write failed", async () => {
+    const storageKey = "test:rotate:crash:before-persist";
+    const storage = new MemoryStorageAdapter();
+    const sls = secureLocalStorage({ storageKey, storage, idbConfig });
+    await sls.setData({ v: 2 });
+    const oldKek = await DeviceKeyProvider.getKey(idbConfig);
+
+    const realSet = storage.setItem.bind(storage);
+    storage.setItem = () => { throw new Error("write failed"); };
+    await expect(sls.rotateKeys()).rejects.toThrow();
+    storage.setItem = realSet;
+
+    // The failed instance keeps working with its previous envelope
+    const still = await sls.getData<{ v: number }>();
+    expect(still.v).toBe(2);
+    still.clear();
+
+    const sls2 = secureLocalStorage({ storageKey, storage, idbConfig });
+    const view = await sls2.getData<{ v: number }>();
+    expect(sls2.lastResetReason).toBeNull();
+    expect(view.v).toBe(2);
+    view.clear();
+
+    expect(await DeviceKeyProvider.getKey(idbConfig)).toBe(oldKek);
+    expect(await DeviceKeyProvider.getPendingKey(idbConfig)).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import "../setup";
+import secureLocalStorage from "../../src";
+import { StorageService } from "../../src/storage/StorageService";
+import { EncryptionManager } from "../../src/crypto/EncryptionManager";
+import { DeviceKeyProvider } from "../../src/crypto/DeviceKeyProvider";
+import { VersionManager } from "../../src/api/sls/VersionManager";
+import { deriveKekFromPassword } from "../../src/crypto/KeyDerivation";
+import { SLS_CONSTANTS } from "../../src/constants";
+import { base64ToBytes, bytesToBase64 } from "../../src/utils/base64";
+
+/** A v2 device-mode envelope (no AAD) wrapped with the default device KEK. */
+async function v2Envelope(value: Record<string, unknown>) {
+  const enc = new EncryptionManager();
+  const dek = await enc.createDek();
+  const { ivWrap, wrappedKey } = await enc.wrapDek(dek, await DeviceKeyProvider.getKey(), undefined);
+  const { iv, ciphertext } = await enc.encryptData(dek, value, undefined);
+  return { header: { v: 2, salt: "", rounds: 1, iv: ivWrap, wrappedKey }, data: { iv, ciphertext } } as any;
+}
+
+describe("SecureLocalStorage downgrade protection", () => {
+  it("refuses a v2 envelope for a store already written in the current format", async () => {
+    const storageKey = "test:downgrade:store";
+    await secureLocalStorage({ storageKey }).setData({ a: 1 });
+    expect(await DeviceKeyProvider.getMinVersion(storageKey)).toBe(5);
+
+    await new StorageService(storageKey).set(await v2Envelope({ a: "forced" }));
+    await expect(secureLocalStorage({ storageKey, strict: true }).whenReady()).rejects.toMatchObject({
+      name: "CorruptConfigError"
+    });
+  });
+
+  it("refuses v2 imports once the store has been written", async () => {
+    const storageKey = "test:downgrade:import";
+    const sls = secureLocalStorage({ storageKey });
+    await sls.setData({ a: 1 });
+
+    // Shape-valid v2 export; rejected before any password or crypto work.
+    const bundle = {
+      header: { v: 2, salt: bytesToBase64(new Uint8Array(16)), rounds: 20, iv: "AAAA", wrappedKey: "AAAA" },
+      data: { iv: "AAAA", ciphertext: "AAAA" }
+    };
+    await expect(sls.importData(JSON.stringify(bundle), "pw")).rejects.toMatchObject({
+      name: "ImportError",
+      message: "Export version 2 is older than the minimum accepted version 3"
+    });
+  });
+
+  it("acceptV2: false rejects v2 envelopes even for stores never written before", async () => {
+    const storageKey = "test:downgrade:acceptV2";
+    const svc = new StorageService(storageKey);
+    const envelope = await v2Envelope({ a: 1 });
+    await svc.set(envelope);
+
+    await expect(secureLocalStorage({ storageKey, strict: true, acceptV2: false }).whenReady()).rejects.toMatchObject({
+      name: "CorruptConfigError"
+    });
+    expect(await svc.get()).toEqual(envelope);
+
+    const view = await secureLocalStorage({ storageKey }).getData<{ a: number }>();
+    expect(view.a).toBe(1);
+    view.clear();
+  });
+
+  it("still imports v3 exports into a store already written in the current format", async () => {
+    const storageKey = "test:downgrade:import:v3";
+    const sls = secureLocalStorage({ storageKey });
+    await sls.setData({ a: 1 });
+    expect(await DeviceKeyProvider.getMinVersion(storageKey)).toBe(5);
+
+    // A custom-password export in the released v3 format
+    const enc = new EncryptionManager();
+    const vm = new VersionManager(storageKey, { dbName: "", storeName: "", keyId: "" }, enc);
+    const salt = enc.generateSaltB64();
+    const rounds = SLS_CONSTANTS.ARGON2.ITERATIONS;
+    const kek = await deriveKekFromPassword("export-pw", base64ToBytes(salt), rounds);
+    const dek = await enc.createDek();
+    const fields = { v: 3 as const, salt, rounds, mPw: false, ctx: "export" as const };
+    const { ivWrap, wrappedKey } = await enc.wrapDek(dek, kek, vm.buildWrapAad(fields));
+    const header = { ...fields, iv: ivWrap, wrappedKey };
+    const { iv, ciphertext } = await enc.encryptData(dek, { imported: true }, vm.buildDataAad(header));
+
+    await expect(sls.importData(JSON.stringify({ header, data: { iv, ciphertext } }), "export-pw")).resolves.toBe(
+      "customExportPassword"
+    );
+    const view = await sls.getData<{ imported: boolean }>();
+    expect(view.imported).toBe(true);
+    view.clear();
+  });
+});
@@ -4,6 +4,7 @@ import { DeviceKeyProvider } from "../../src/crypto/DeviceKeyProvider";
 import { EncryptionManager } from "../../src/crypto/EncryptionManager";
 import { StorageService } from "../../src/storage/StorageService";
 import { ValidationError } from "../../src/errors";
+import { VersionManager } from "../../src/api/sls/VersionManager";
 
 describe("getData() rejects non-plain object payloads", () => {
   it("tampered ciphertext decrypts to a string -> ValidationError", async () => {
@@ -13,29 +14,23 @@ describe("getData() rejects non-plain object payloads", () => {
 
     // Read and tamper the persisted bundle
     const svc = new StorageService(storageKey);
-    const cfg = svc.get()!;
+    const cfg = (await svc.get())!;
     const deviceKek = await DeviceKeyProvider.getKey();
     const enc = new EncryptionManager();
 
-    // Build AAD (only for v3); v2 uses undefined (no AAD)
-    const te = new TextEncoder();
-    const wrapAad =
-      cfg.header.v === 3
-        ? te.encode(`sls|wrap|v${cfg.header.v}|${storageKey}`)
-        : undefined;
+    // AAD as the store builds it (v3 and later bind the header; v2 uses none)
+    const vm = new VersionManager(storageKey, { dbName: "", storeName: "", keyId: "" }, enc);
+    const wrapAad = vm.getAadFor("wrap", cfg);
 
     const dek = await enc.unwrapDek(cfg.header.iv, cfg.header.wrappedKey, deviceKek, false, wrapAad);
 
-    // Data AAD must bind to the header (only for v3)
-    const dataAad =
-      cfg.header.v === 3
-        ? te.encode(`sls|data|v${cfg.header.v}|${storageKey}|${cfg.header.iv}|${cfg.header.wrappedKey}`)
-        : undefined;
+    // Data AAD must bind to the header (v3 and later)
+    const dataAad = vm.getAadFor("data", cfg);
 
     // Re-encrypt a non-object (string) and persist it
     const wrong = await enc.encryptData(dek, "not-object", dataAad);
     cfg.data = wrong;
-    svc.set(cfg);
+    await svc.set(cfg);
 
     // IMPORTANT: create a fresh instance so it reloads the mutated config
     const sls2 = secureLocalStorage({ storageKey });
@@ -0,0 +1,54 @@
+import "../setup";
+import secureLocalStorage from "../../src";
+import { MemoryStorageAdapter } from "../../src/storage/StorageAdapter";
+
+describe("SecureLocalStorage - journal recovery on initialize()", () => {
+  it("completes a half-finished write instead of resetting the store", async () => {
+    const storageKey = "test:sls:journal:forward";
+    const adapter = new MemoryStorageAdapter();
+    const sls = secureLocalStorage({ storageKey, storage: adapter });
+    await sls.setData({ v: 1 });
+    await sls.setMasterPassword("pw-journal");
+
+    // Stage a valid config in the journal and tear the primary entry
+    const committed = adapter.getItem(storageKey)!;
+    adapter.setItem(`${storageKey}#journal`, committed);
+    adapter.setItem(storageKey, committed.slice(0, 20));
+
+    const sls2 = secureLocalStorage({ storageKey, storage: adapter });
+    await sls2.unlock("pw-journal");
+    expect(sls2.lastJournalRecovery).toBe("rolled-forward");
+    expect(sls2.lastResetReason).toBeNull();
+    const view = await sls2.getData<{ v: number }>();
+    expect(view.v).toBe(1);
+    view.clear();
+  });
+
+  it("rolls back an incomplete journal and keeps the last committed config", async () => {
+    const storageKey = "test:sls:journal:back";
+    const adapter = new MemoryStorageAdapter();
+    const sls = secureLocalStorage({ storageKey, storage: adapter });
+    await sls.setData({ v: 2 });
+
+    adapter.setItem(`${storageKey}#journal`, "{\"header\":{\"v\":3");
+
+    const sls2 = secureLocalStorage({ storageKey, storage: adapter });
+    const view = await sls2.getData<{ v: number }>();
+    expect(sls2.lastJournalRecovery).toBe("rolled-back");
+    expect(view.v).toBe(2);
+    view.clear();
+    expect(adapter.getItem(`${storageKey}#journal`)).toBeNull();
+  });
+
+  it("journal: false writes in place", async () => {
+    const storageKey = "test:sls:journal:off";
+    const adapter = new MemoryStorageAdapter();
+    const writes: string[] = [];
+    const realSet = adapter.setItem.bind(adapter);
+    adapter.setItem = (k: string, v: string) => { writes.push(k); realSet(k, v); };
+
+    const sls = secureLocalStorage({ storageKey, storage: adapter, journal: false });
+    await sls.setData({ v: 3 });
+    expect(writes.every((k) => k === storageKey)).toBe(true);
+  });
+});
@@ -0,0 +1,73 @@
+import "../setup";
+import secureLocalStorage from "../../src";
+import { StorageService } from "../../src/storage/StorageService";
+import { SLS_CONSTANTS } from "../../src/constants";
+import type { PersistedConfigV4 } from "../../src/types";
+
+const light = { time: 3, memKiB: 16 * 1024, parallelism: 2 };
+const lightKdf = { alg: "argon2id", ...light, hashLen: SLS_CONSTANTS.ARGON2.HASH_LEN };
+
+async function header(storageKey: string) {
+  return ((await new StorageService(storageKey).get()) as PersistedConfigV4).header;
+}
+
+describe("kdf option", () => {
+  it("setMasterPassword and rotateMasterPassword use the instance parameters", async () => {
+    const storageKey = "test:kdf-opt:master";
+    const sls = secureLocalStorage({ storageKey, kdf: light });
+    await sls.setMasterPassword("pw-1");
+    expect((await header(storageKey)).kdf).toEqual(lightKdf);
+    expect((await header(storageKey)).rounds).toBe(light.time);
+
+    await sls.rotateMasterPassword("pw-1", "pw-2");
+    expect((await header(storageKey)).kdf).toEqual(lightKdf);
+  });
+
+  it("setMasterPassword and rotateMasterPassword accept per-call parameters", async () => {
+    const storageKey = "test:kdf-opt:per-call";
+    const sls = secureLocalStorage({ storageKey });
+    await sls.setMasterPassword("pw-1", light);
+    expect((await header(storageKey)).kdf).toEqual(lightKdf);
+
+    await sls.rotateMasterPassword("pw-1", "pw-2", { time: 5 });
+    expect((await header(storageKey)).kdf).toMatchObject({ time: 5, memKiB: SLS_CONSTANTS.ARGON2.MEMORY_KIB });
+    await expect(sls.rotateMasterPassword("pw-2", "pw-3", { time: 1 })).rejects.toMatchObject({ name: "ValidationError" });
+
+    sls.lock();
+    await sls.unlock("pw-2");
+    expect(sls.isLocked()).toBe(false);
+  });
+
+  it("password-protected exports use the instance parameters", async () => {
+    const sls = secureLocalStorage({ storageKey: "test:kdf-opt:export", kdf: { memKiB: 32 * 1024 } });
+    await sls.setData({ a: 1 });
+    const bundle = JSON.parse(await sls.exportData("export-pw"));
+    expect(bundle.header.kdf).toMatchObject({ memKiB: 32 * 1024, time: SLS_CONSTANTS.ARGON2.ITERATIONS });
+  });
+
+  it("stores written with other parameters still unlock (the header wins)", async () => {
+    const storageKey = "test:kdf-opt:reopen";
+    const writer = secureLocalStorage({ storageKey, kdf: light });
+    await writer.setMasterPassword("pw");
+    await writer.setData({ v: "x" });
+
+    const reader = secureLocalStorage({ storageKey, kdf: { time: 30 } });
+    await reader.unlock("pw");
+    expect((await reader.getData<{ v: string }>()).v).toBe("x");
+  });
+
+  it("rejects parameters below the minimums or outside the limits", () => {
+    for (const kdf of [
+      { time: 1 },
+      { memKiB: 1024 },
+      { parallelism: 0 },
+      { time: 1000 },
+      { memKiB: 1.5 },
+      "strong"
+    ]) {
+      expect(() => secureLocalStorage({ storageKey: "test:kdf-opt:bad", kdf: kdf as any })).toThrow(
+        expect.objectContaining({ name: "ValidationError" })
+      );
+    }
+  });
+});
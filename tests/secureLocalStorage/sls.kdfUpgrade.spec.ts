@@ -0,0 +1,131 @@
+import "../setup";
+import secureLocalStorage from "../../src";
+import { MemoryStorageAdapter } from "../../src/storage/StorageAdapter";
+import type { PersistedConfigV4, SlsEventMap } from "../../src/types";
+
+const weak = { time: 2, memKiB: 8 * 1024 };
+const strong = { time: 4, memKiB: 16 * 1024 };
+
+function header(storage: MemoryStorageAdapter, storageKey: string): PersistedConfigV4["header"] {
+  return (JSON.parse(storage.getItem(storageKey)!) as PersistedConfigV4).header;
+}
+
+function nextEvent<K extends keyof SlsEventMap>(sls: ReturnType<typeof secureLocalStorage>, event: K) {
+  return new Promise<SlsEventMap[K]>((resolve) => {
+    const off = sls.on(event, (payload) => { off(); resolve(payload); });
+  });
+}
+
+describe("automatic KDF upgrade on unlock", () => {
+  it("re-wraps the primary with the stronger instance policy after unlock", async () => {
+    const storageKey = "test:kdf-upgrade:primary";
+    const storage = new MemoryStorageAdapter();
+    const old = secureLocalStorage({ storageKey, storage, kdf: weak });
+    await old.setData({ secret: "s" });
+    await old.setMasterPassword("pw");
+
+    const sls = secureLocalStorage({ storageKey, storage, kdf: strong });
+    const upgraded = nextEvent(sls, "kdf-upgraded");
+    await sls.unlock("pw");
+    const event = await upgraded;
+
+    expect(event.slotId).toBe("primary");
+    expect(event.previous).toMatchObject(weak);
+    expect(event.kdf).toMatchObject(strong);
+    expect(header(storage, storageKey).kdf).toMatchObject(strong);
+    expect(header(storage, storageKey).rounds).toBe(strong.time);
+
+    // The session follows the new wrap and the data survives.
+    expect(sls.isLocked()).toBe(false);
+    await sls.setData({ secret: "t" });
+    const reopened = secureLocalStorage({ storageKey, storage, kdf: strong });
+    await reopened.unlock("pw");
+    expect((await reopened.getData<{ secret: string }>()).secret).toBe("t");
+  });
+
+  it("keeps a setData that runs while the upgrade re-wraps the store", async () => {
+    const storageKey = "test:kdf-upgrade:concurrent";
+    const storage = new MemoryStorageAdapter();
+    const old = secureLocalStorage({ storageKey, storage, kdf: weak });
+    await old.setData({ v: 0 });
+    await old.setMasterPassword("pw");
+
+    const sls = secureLocalStorage({ storageKey, storage, kdf: strong });
+    const wrapDek = sls.enc.wrapDek.bind(sls.enc);
+    let write: Promise<void> | null = null;
+    // The upgrade's re-wrap is the only wrapDek call after unlock; start a user write right in the middle of it.
+    const spy = jest.spyOn(sls.enc, "wrapDek").mockImplementation((...args: Parameters<typeof wrapDek>) => {
+      write ??= sls.setData({ v: 1 });
+      return wrapDek(...args);
+    });
+    const upgraded = nextEvent(sls, "kdf-upgraded");
+    await sls.unlock("pw");
+    await upgraded;
+    await write;
+    spy.mockRestore();
+
+    expect(write).not.toBeNull();
+    expect((await sls.getData<{ v: number }>()).v).toBe(1);
+    expect(header(storage, storageKey).kdf).toMatchObject(strong);
+    const reopened = secureLocalStorage({ storageKey, storage, kdf: strong });
+    await reopened.unlock("pw");
+    expect((await reopened.getData<{ v: number }>()).v).toBe(1);
+  });
+
+  it("upgrades the password key slot that was used to unlock", async () => {
+    const storageKey = "test:kdf-upgrade:slot";
+    const storage = new MemoryStorageAdapter();
+    const old = secureLocalStorage({ storageKey, storage, kdf: weak });
+    await old.setMasterPassword("primary-pw");
+    const id = await old.addPasswordSlot("slot-pw");
+
+    const sls = secureLocalStorage({ storageKey, storage, kdf: strong });
+    const upgraded = nextEvent(sls, "kdf-upgraded");
+    await sls.unlock("slot-pw");
+    expect((await upgraded).slotId).toBe(id);
+
+    const h = header(storage, storageKey);
+    expect(h.kdf).toMatchObject(weak);
+    expect(h.slots!.find((s) => s.id === id)!.kdf).toMatchObject(strong);
+    expect(typeof (await sls.exportData())).toBe("string");
+  });
+
+  it("does nothing when the stored parameters already meet the policy", async () => {
+    const storageKey = "test:kdf-upgrade:noop";
+    const storage = new MemoryStorageAdapter();
+    const old = secureLocalStorage({ storageKey, storage, kdf: strong });
+    await old.setMasterPassword("pw");
+    const before = storage.getItem(storageKey);
+
+    const sls = secureLocalStorage({ storageKey, storage, kdf: weak });
+    let fired = false;
+    sls.on("kdf-upgraded", () => { fired = true; });
+    await sls.unlock("pw");
+    await new Promise((r) => setTimeout(r, 20));
+
+    expect(fired).toBe(false);
+    expect(storage.getItem(storageKey)).toBe(before);
+  });
+
+  it("reports a failed upgrade and keeps the old wrap", async () => {
+    const storageKey = "test:kdf-upgrade:fail";
+    const storage = new MemoryStorageAdapter();
+    const old = secureLocalStorage({ storageKey, storage, kdf: weak });
+    await old.setMasterPassword("pw");
+    const before = storage.getItem(storageKey);
+
+    const sls = secureLocalStorage({ storageKey, storage, kdf: strong });
+    const derive = sls.deriveKekFromPassword;
+    let calls = 0;
+    // Unlock's own derivation succeeds; the upgrade's (second) one fails.
+    const spy = jest.spyOn(sls, "deriveKekFromPassword" as any).mockImplementation((...args: any[]) =>
+      ++calls === 1 ? (derive as any)(...args) : Promise.reject(new Error("out of memory"))
+    );
+    const failed = nextEvent(sls, "kdf-upgrade-failed");
+    await sls.unlock("pw");
+    await expect(failed).resolves.toMatchObject({ slotId: "primary" });
+    expect(sls.isLocked()).toBe(false);
+    expect(storage.getItem(storageKey)).toBe(before);
+    spy.mockRestore();
+  });
+});
@@ -0,0 +1,63 @@
+import "../setup";
+import secureLocalStorage, { type KekProvider } from "../../src";
+import { DeviceKeyProvider } from "../../src/crypto/DeviceKeyProvider";
+import { MemoryStorageAdapter } from "../../src/storage/StorageAdapter";
+
+function generateKek(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["wrapKey", "unwrapKey"]) as Promise<CryptoKey>;
+}
+
+/** Test double standing in for a native key bridge. */
+class MemoryKekProvider implements KekProvider {
+  key: CryptoKey | null = null;
+  pending: CryptoKey | null = null;
+
+  async getKey() { return (this.key ??= await generateKek()); }
+  async deletePersistent() { this.key = null; this.pending = null; }
+  async stageKey() { return (this.pending = await generateKek()); }
+  async getPendingKey() { return this.pending; }
+  async commitPendingKey() {
+    if (this.pending) { this.key = this.pending; this.pending = null; }
+    return this.getKey();
+  }
+  async discardPendingKey() { this.pending = null; }
+}
+
+describe("SecureLocalStorage kekProvider option", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it("takes the device KEK from the injected provider instead of IndexedDB", async () => {
+    const spy = jest.spyOn(DeviceKeyProvider, "getKey");
+    const kekProvider = new MemoryKekProvider();
+    const storage = new MemoryStorageAdapter();
+    const storageKey = "test:kekProvider:inject";
+
+    const sls = secureLocalStorage({ storageKey, storage, kekProvider });
+    await sls.setData({ a: 1 });
+    await sls.rotateKeys();
+    expect(kekProvider.pending).toBeNull();
+
+    const reopened = secureLocalStorage({ storageKey, storage, kekProvider });
+    const view = await reopened.getData<{ a: number }>();
+    expect(view.a).toBe(1);
+    view.clear();
+
+    await reopened.clear();
+    expect(kekProvider.key).not.toBeNull(); // re-created for the fresh store
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it("rejects rotateKeys() for providers without staging support", async () => {
+    let key: CryptoKey | null = null;
+    const kekProvider: KekProvider = {
+      getKey: async () => (key ??= await generateKek()),
+      deletePersistent: async () => { key = null; }
+    };
+    const sls = secureLocalStorage({ storageKey: "test:kekProvider:minimal", storage: new MemoryStorageAdapter(), kekProvider });
+    await sls.setData({ a: 1 });
+    await expect(sls.rotateKeys()).rejects.toMatchObject({ name: "NotSupportedError" });
+    const view = await sls.getData<{ a: number }>();
+    expect(view.a).toBe(1);
+    view.clear();
+  });
+});
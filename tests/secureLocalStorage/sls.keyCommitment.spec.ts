@@ -0,0 +1,67 @@
+import "../setup";
+import secureLocalStorage from "../../src";
+import { StorageService } from "../../src/storage/StorageService";
+import type { PersistedConfigV5 } from "../../src/types";
+
+const kdf = { time: 2, memKiB: 8 * 1024 };
+const foreignTag = () => btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32))));
+
+describe("SecureLocalStorage keyCommitment option", () => {
+  it("commits the master password KEK and checks it before unwrapping", async () => {
+    const storageKey = "test:kc:store";
+    const sls = secureLocalStorage({ storageKey, kdf, keyCommitment: true });
+    await sls.setMasterPassword("pw");
+    const cfg = (await new StorageService(storageKey).get()) as PersistedConfigV5;
+    expect(typeof cfg.header.kc).toBe("string");
+
+    const reader = secureLocalStorage({ storageKey, kdf });
+    await expect(reader.unlock("wrong")).rejects.toMatchObject({ name: "InvalidPasswordError" });
+    await reader.unlock("pw");
+    expect(reader.isLocked()).toBe(false);
+    reader.lock();
+
+    // A tag that does not match the KEK is rejected even for the right password
+    await new StorageService(storageKey).set({ ...cfg, header: { ...cfg.header, kc: foreignTag() } });
+    const tampered = secureLocalStorage({ storageKey, kdf });
+    await expect(tampered.unlock("pw")).rejects.toMatchObject({ name: "KeyCommitmentError" });
+  });
+
+  it("checks the tag before restoring a quarantined envelope", async () => {
+    const storageKey = "test:kc:quarantine";
+    const sls = secureLocalStorage({ storageKey, kdf, keyCommitment: true, quarantine: true });
+    await sls.setMasterPassword("pw");
+    const cfg = (await new StorageService(storageKey).get()) as PersistedConfigV5;
+
+    await sls.quarantine.add("invalid-config", JSON.stringify({ ...cfg, header: { ...cfg.header, kc: foreignTag() } }));
+    const entry = (await sls.listQuarantined())[0]!;
+    await sls.clear();
+    await expect(sls.retryQuarantined(entry.id, "pw")).rejects.toMatchObject({ name: "KeyCommitmentError" });
+    expect(sls.isUsingMasterPassword()).toBe(false);
+    expect(await sls.listQuarantined()).toHaveLength(1);
+  });
+
+  it("tags exports and rejects a non-matching password on import", async () => {
+    const sls = secureLocalStorage({ storageKey: "test:kc:export:src", keyCommitment: true });
+    await sls.setData({ a: 1 });
+    const exported = await sls.exportData("export-pw");
+    expect(JSON.parse(exported).header.kc).toBeDefined();
+
+    const dst = secureLocalStorage({ storageKey: "test:kc:export:dst" });
+    await expect(dst.importData(exported, "other-pw")).rejects.toMatchObject({ name: "InvalidImportPasswordError" });
+    const bundle = JSON.parse(exported);
+    bundle.header.kc = foreignTag();
+    await expect(dst.importData(JSON.stringify(bundle), "export-pw")).rejects.toMatchObject({
+      name: "KeyCommitmentError"
+    });
+    await expect(dst.importData(exported, "export-pw")).resolves.toBe("customExportPassword");
+    const view = await dst.getData<{ a: number }>();
+    expect(view.a).toBe(1);
+    view.clear();
+  });
+
+  it("is off by default", async () => {
+    const sls = secureLocalStorage({ storageKey: "test:kc:off" });
+    await sls.setData({ a: 1 });
+    expect(JSON.parse(await sls.exportData("export-pw")).header.kc).toBeUndefined();
+  });
+});
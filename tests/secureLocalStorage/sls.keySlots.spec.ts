@@ -0,0 +1,100 @@
+import "../setup";
+import secureLocalStorage from "../../src";
+import { DeviceKeyProvider } from "../../src/crypto/DeviceKeyProvider";
+import { MemoryStorageAdapter } from "../../src/storage/StorageAdapter";
+
+describe("SecureLocalStorage key slots", () => {
+  const idbConfig = { dbName: "SLS_KEYS_SLOTS", storeName: "keys", keyId: "deviceKek_slots" };
+
+  beforeEach(async () => {
+    await DeviceKeyProvider.deletePersistent(idbConfig);
+  });
+
+  async function masterStore(storageKey: string, storage = new MemoryStorageAdapter()) {
+    const sls = secureLocalStorage({ storageKey, storage, idbConfig });
+    await sls.setData({ secret: 42 });
+    await sls.setMasterPassword("primary-pw");
+    return { sls, storage };
+  }
+
+  it("unlocks with an additional password slot", async () => {
+    const { sls, storage } = await masterStore("test:slots:password");
+    const id = await sls.addPasswordSlot("second-pw", "backup");
+
+    expect(await sls.listKeySlots()).toEqual([
+      { id: "primary", kind: "password", primary: true },
+      { id, kind: "password", label: "backup", primary: false }
+    ]);
+
+    const reopened = secureLocalStorage({ storageKey: "test:slots:password", storage, idbConfig });
+    await reopened.whenReady();
+    expect(reopened.isLocked()).toBe(true);
+    await reopened.unlock("second-pw");
+    const view = await reopened.getData<{ secret: number }>();
+    expect(view.secret).toBe(42);
+    view.clear();
+
+    // The slot that opened the session cannot be removed, and the primary is still accepted
+    await expect(reopened.removeKeySlot(id)).rejects.toMatchObject({ name: "ValidationError" });
+    reopened.lock();
+    await expect(reopened.unlock("wrong-pw")).rejects.toMatchObject({ name: "InvalidPasswordError" });
+    await reopened.unlock("primary-pw");
+    await reopened.removeKeySlot(id);
+    expect((await reopened.listKeySlots()).length).toBe(1);
+
+    reopened.lock();
+    await expect(reopened.unlock("second-pw")).rejects.toMatchObject({ name: "InvalidPasswordError" });
+  });
+
+  it("keeps slots across rotateMasterPassword and drops them with removeMasterPassword", async () => {
+    const { sls } = await masterStore("test:slots:rotate");
+    await sls.addPasswordSlot("second-pw");
+
+    await sls.rotateMasterPassword("second-pw", "new-primary");
+    sls.lock();
+    await sls.unlock("second-pw");
+    sls.lock();
+    await sls.unlock("new-primary");
+    const view = await sls.getData<{ secret: number }>();
+    expect(view.secret).toBe(42);
+    view.clear();
+
+    await sls.removeMasterPassword();
+    expect(await sls.listKeySlots()).toEqual([]);
+    await expect(sls.addPasswordSlot("x")).rejects.toMatchObject({ name: "ModeError" });
+  });
+
+  it("opens unlocked on this device through a device slot", async () => {
+    const storageKey = "test:slots:device";
+    const { sls, storage } = await masterStore(storageKey);
+    await sls.addDeviceSlot();
+    await expect(sls.addDeviceSlot()).rejects.toMatchObject({ name: "ValidationError" });
+
+    const reopened = secureLocalStorage({ storageKey, storage, idbConfig });
+    const view = await reopened.getData<{ secret: number }>();
+    expect(view.secret).toBe(42);
+    view.clear();
+    expect(reopened.isLocked()).toBe(false);
+    await expect(reopened.exportData()).rejects.toMatchObject({ name: "ExportError" });
+
+    reopened.lock();
+    expect(reopened.isLocked()).toBe(true);
+    await reopened.unlock("primary-pw");
+    expect(reopened.isLocked()).toBe(false);
+  });
+
+  it("rejects slot changes while locked and tampered slot metadata", async () => {
+    const storageKey = "test:slots:locked";
+    const { sls, storage } = await masterStore(storageKey);
+    await sls.addPasswordSlot("second-pw");
+    sls.lock();
+    await expect(sls.addPasswordSlot("third-pw")).rejects.toMatchObject({ name: "LockedError" });
+
+    // Changing the slot id breaks its AAD binding; the key check value still matches the password
+    const cfg = JSON.parse(storage.getItem(storageKey)!);
+    cfg.header.slots[0].id = "0000000000000000";
+    storage.setItem(storageKey, JSON.stringify(cfg));
+    const reopened = secureLocalStorage({ storageKey, storage, idbConfig });
+    await expect(reopened.unlock("second-pw")).rejects.toMatchObject({ name: "CorruptDataError" });
+  });
+});
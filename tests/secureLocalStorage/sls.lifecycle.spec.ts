@@ -0,0 +1,53 @@
+import "../setup";
+import { SecureLocalStorage } from "../../src";
+import { DeviceKeyProvider } from "../../src/crypto/DeviceKeyProvider";
+import { MemoryStorageAdapter } from "../../src/storage/StorageAdapter";
+
+describe("SecureLocalStorage lifecycle", () => {
+  const idbConfig = { dbName: "SLS_KEYS_LIFECYCLE", storeName: "keys", keyId: "deviceKek_lifecycle" };
+
+  beforeEach(async () => {
+    await DeviceKeyProvider.deletePersistent(idbConfig);
+  });
+
+  it("create() resolves to an initialized device-mode instance", async () => {
+    const sls = await SecureLocalStorage.create({ storageKey: "test:lifecycle:create", storage: new MemoryStorageAdapter(), idbConfig });
+    expect(sls.getStatus()).toBe("device");
+    expect(sls.isLocked()).toBe(false);
+    expect(sls.isUsingMasterPassword()).toBe(false);
+  });
+
+  it("getStatus() reports initializing, then follows lock state without throwing", async () => {
+    const storage = new MemoryStorageAdapter();
+    const storageKey = "test:lifecycle:status";
+    const sls = new SecureLocalStorage({ storageKey, storage, idbConfig });
+    expect(sls.getStatus()).toBe("initializing");
+    await sls.whenReady();
+    expect(sls.getStatus()).toBe("device");
+
+    await sls.setMasterPassword("pw-1");
+    expect(sls.getStatus()).toBe("unlocked");
+    sls.lock();
+    expect(sls.getStatus()).toBe("locked");
+
+    const reopened = await SecureLocalStorage.create({ storageKey, storage, idbConfig });
+    expect(reopened.getStatus()).toBe("locked");
+  });
+
+  it("create() rejects and getStatus() is failed when strict initialization fails", async () => {
+    const storage = new MemoryStorageAdapter();
+    const storageKey = "test:lifecycle:failed";
+    storage.setItem(storageKey, "{not json");
+
+    await expect(SecureLocalStorage.create({ storageKey, storage, idbConfig, strict: true }))
+      .rejects.toMatchObject({ name: "CorruptConfigError" });
+
+    const sls = new SecureLocalStorage({ storageKey, storage, idbConfig, strict: true });
+    await expect(sls.whenReady()).rejects.toMatchObject({ name: "CorruptConfigError" });
+    expect(sls.getStatus()).toBe("failed");
+
+    await sls.clear();
+    expect(sls.getStatus()).toBe("device");
+    await expect(sls.whenReady()).resolves.toBeUndefined();
+  });
+});
@@ -24,7 +24,7 @@ describe("master password mode", () => {
   });
 });
 
-import { ExportError, ImportError, LockedError, ModeError } from "../../src/errors";
+import { ExportError, ImportError, InvalidImportPasswordError, LockedError, ModeError } from "../../src/errors";
 
 describe("master password - additional edge cases", () => {
 
@@ -43,11 +43,12 @@ describe("master password - additional edge cases", () => {
     await expect(sls.removeMasterPassword()).rejects.toBeInstanceOf(LockedError);
   });
 
-  it("rotateKeys is forbidden in master mode", async () => {
-    const sls = secureLocalStorage({ storageKey: "test:sls-mp-rotate-forbidden" });
+  it("rotateKeys is refused while locked in master mode", async () => {
+    const sls = secureLocalStorage({ storageKey: "test:sls-mp-rotate-locked" });
     await sls.setData({ v: 1 });
     await sls.setMasterPassword("pw-1");
-    await expect(sls.rotateKeys()).rejects.toBeInstanceOf(ModeError);
+    sls.lock();
+    await expect(sls.rotateKeys()).rejects.toBeInstanceOf(LockedError);
   });
 
   it("exportData without a custom password in master mode sets mPw flag and can be re-imported with the master password", async () => {
@@ -61,6 +62,7 @@ describe("master password - additional edge cases", () => {
     const sls2 = secureLocalStorage({ storageKey: "test:sls-mp-import-mpw" });
     // wrong master password
     await expect(sls2.importData(exported, "wrong")).rejects.toBeInstanceOf(ImportError);
+    await expect(sls2.importData(exported, "wrong")).rejects.toBeInstanceOf(InvalidImportPasswordError);
 
     // correct master password
     await sls2.importData(exported, "pw-1");
@@ -0,0 +1,64 @@
+import "../setup";
+import secureLocalStorage from "../../src";
+import { StorageService } from "../../src/storage/StorageService";
+import type { PersistedConfigV4 } from "../../src/types";
+
+const kdf = { time: 2, memKiB: 8 * 1024 };
+
+async function header(storageKey: string) {
+  return ((await new StorageService(storageKey).get()) as PersistedConfigV4).header;
+}
+
+describe("rotateKeys in master-password mode", () => {
+  it("replaces the DEK under the session KEK and keeps the password", async () => {
+    const storageKey = "test:master-rotate:session";
+    const sls = secureLocalStorage({ storageKey, kdf });
+    await sls.setMasterPassword("pw");
+    await sls.setData({ v: 1 });
+    const before = await header(storageKey);
+
+    await sls.rotateKeys();
+    const after = await header(storageKey);
+    expect(after.wrappedKey).not.toBe(before.wrappedKey);
+    expect(after.salt).toBe(before.salt);
+    expect((await sls.getData<{ v: number }>()).v).toBe(1);
+
+    const reopened = secureLocalStorage({ storageKey, kdf });
+    await reopened.unlock("pw");
+    expect((await reopened.getData<{ v: number }>()).v).toBe(1);
+  });
+
+  it("takes a new salt when given the master password", async () => {
+    const storageKey = "test:master-rotate:salt";
+    const sls = secureLocalStorage({ storageKey, kdf });
+    await sls.setMasterPassword("pw");
+    const { salt } = await header(storageKey);
+
+    await expect(sls.rotateKeys({ masterPassword: "nope" })).rejects.toMatchObject({ name: "InvalidPasswordError" });
+    await sls.rotateKeys({ masterPassword: "pw" });
+    expect((await header(storageKey)).salt).not.toBe(salt);
+
+    sls.lock();
+    await sls.unlock("pw");
+    expect(sls.isLocked()).toBe(false);
+  });
+
+  it("re-wraps device slots and requires dropKeySlots for the others", async () => {
+    const storageKey = "test:master-rotate:slots";
+    const sls = secureLocalStorage({ storageKey, kdf });
+    await sls.setMasterPassword("pw");
+    await sls.setData({ v: 2 });
+    await sls.addDeviceSlot("this device");
+    await sls.addPasswordSlot("second");
+
+    await expect(sls.rotateKeys()).rejects.toMatchObject({ name: "ValidationError" });
+    expect((await sls.listKeySlots()).length).toBe(3);
+
+    await sls.rotateKeys({ dropKeySlots: true });
+    expect((await sls.listKeySlots()).map((s) => s.kind)).toEqual(["password", "device"]);
+
+    // The re-wrapped device slot opens the new DEK at startup.
+    const reopened = secureLocalStorage({ storageKey, kdf });
+    expect((await reopened.getData<{ v: number }>()).v).toBe(2);
+  });
+});
@@ -0,0 +1,75 @@
+import "../setup";
+import secureLocalStorage from "../../src";
+import { DeviceKeyProvider } from "../../src/crypto/DeviceKeyProvider";
+import type { PrfAuthenticator, PrfCandidate } from "../../src/crypto/WebAuthnPrf";
+import { MemoryStorageAdapter } from "../../src/storage/StorageAdapter";
+
+/** Stub authenticator: PRF(credential, salt) = SHA-256(secret | credentialId | salt). */
+class StubAuthenticator implements PrfAuthenticator {
+  private secrets = new Map<string, Uint8Array>();
+  pick: (candidates: PrfCandidate[]) => PrfCandidate = (c) => c[0]!;
+
+  async register(): Promise<Uint8Array> {
+    const id = crypto.getRandomValues(new Uint8Array(16));
+    this.secrets.set(id.join(","), crypto.getRandomValues(new Uint8Array(32)));
+    return id;
+  }
+
+  async evaluate(candidates: PrfCandidate[]) {
+    const c = this.pick(candidates);
+    const secret = this.secrets.get(c.credentialId.join(",")) ?? new Uint8Array(32);
+    const input = new Uint8Array([...secret, ...c.credentialId, ...c.salt]);
+    const output = new Uint8Array(await crypto.subtle.digest("SHA-256", input));
+    return { credentialId: c.credentialId, output };
+  }
+}
+
+describe("SecureLocalStorage passkey unlock", () => {
+  const idbConfig = { dbName: "SLS_KEYS_PASSKEY", storeName: "keys", keyId: "deviceKek_passkey" };
+
+  beforeEach(async () => {
+    await DeviceKeyProvider.deletePersistent(idbConfig);
+  });
+
+  it("enrolls a passkey and unlocks with it instead of the password", async () => {
+    const storageKey = "test:passkey:unlock";
+    const storage = new MemoryStorageAdapter();
+    const webauthn = new StubAuthenticator();
+    const sls = secureLocalStorage({ storageKey, storage, idbConfig, webauthn });
+    await sls.setData({ a: 1 });
+    await expect(sls.enrollPasskey()).rejects.toMatchObject({ name: "ModeError" });
+
+    await sls.setMasterPassword("pw");
+    const slotId = await sls.enrollPasskey("laptop");
+    expect((await sls.listKeySlots()).find((s) => s.id === slotId)).toMatchObject({ kind: "passkey", label: "laptop" });
+
+    const reopened = secureLocalStorage({ storageKey, storage, idbConfig, webauthn });
+    await reopened.unlockWithPasskey();
+    expect(reopened.isLocked()).toBe(false);
+    const view = await reopened.getData<{ a: number }>();
+    expect(view.a).toBe(1);
+    view.clear();
+    await expect(reopened.exportData()).rejects.toMatchObject({ name: "ExportError" });
+  });
+
+  it("rejects unknown passkeys and stores without an enrolled passkey", async () => {
+    const storageKey = "test:passkey:reject";
+    const storage = new MemoryStorageAdapter();
+    const webauthn = new StubAuthenticator();
+    const sls = secureLocalStorage({ storageKey, storage, idbConfig, webauthn });
+    await sls.setMasterPassword("pw");
+    sls.lock();
+    await expect(sls.unlockWithPasskey()).rejects.toMatchObject({ name: "ValidationError" });
+
+    await sls.unlock("pw");
+    await sls.enrollPasskey();
+    sls.lock();
+
+    // A different authenticator answering for the same credential id yields a different PRF output
+    const other = new StubAuthenticator();
+    const reopened = secureLocalStorage({ storageKey, storage, idbConfig, webauthn: other });
+    await expect(reopened.unlockWithPasskey()).rejects.toMatchObject({ name: "ValidationError" });
+    await reopened.whenReady();
+    expect(reopened.isLocked()).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+import "../setup";
+import secureLocalStorage from "../../src";
+import { StorageService } from "../../src/storage/StorageService";
+import { base64ToBytes, bytesToBase64 } from "../../src/utils/base64";
+import type { PersistedConfigV5 } from "../../src/types";
+import { CorruptDataError, ImportError, InvalidPasswordError, ValidationError } from "../../src/errors";
+
+const kdf = { time: 2, memKiB: 8 * 1024 };
+
+function flipFirstByte(b64: string): string {
+  const bytes = base64ToBytes(b64);
+  bytes[0]! ^= 0xff;
+  return bytesToBase64(bytes);
+}
+
+describe("SecureLocalStorage password errors", () => {
+  it("tells a wrong master password from a corrupted wrapped key", async () => {
+    const storageKey = "test:pwerr:store";
+    const sls = secureLocalStorage({ storageKey, kdf });
+    await sls.setData({ a: 1 });
+    await sls.setMasterPassword("pw");
+    const svc = new StorageService(storageKey);
+    const cfg = (await svc.get()) as PersistedConfigV5;
+    expect(typeof cfg.header.kcv).toBe("string");
+
+    const reader = secureLocalStorage({ storageKey, kdf });
+    await expect(reader.unlock("wrong")).rejects.toMatchObject({ name: "InvalidPasswordError" });
+
+    await svc.set({ ...cfg, header: { ...cfg.header, wrappedKey: flipFirstByte(cfg.header.wrappedKey) } });
+    const corrupted = secureLocalStorage({ storageKey, kdf });
+    await expect(corrupted.unlock("pw")).rejects.toMatchObject({ name: "CorruptDataError" });
+    await expect(corrupted.unlock("wrong")).rejects.toMatchObject({ name: "InvalidPasswordError" });
+
+    // Callers that only know the older error classes still match
+    await expect(corrupted.unlock("wrong")).rejects.toBeInstanceOf(ValidationError);
+    await expect(corrupted.unlock("pw")).rejects.toBeInstanceOf(ValidationError);
+    await expect(corrupted.unlock("pw")).rejects.toBeInstanceOf(CorruptDataError);
+  });
+
+  it("tells a wrong export password from corrupted export data", async () => {
+    const sls = secureLocalStorage({ storageKey: "test:pwerr:export:src" });
+    await sls.setData({ a: 1 });
+    const bundle = JSON.parse(await sls.exportData("export-pw"));
+    expect(typeof bundle.header.kcv).toBe("string");
+
+    const dst = secureLocalStorage({ storageKey: "test:pwerr:export:dst" });
+    await expect(dst.importData(JSON.stringify(bundle), "other-pw")).rejects.toMatchObject({
+      name: "InvalidImportPasswordError"
+    });
+    const corrupted = { ...bundle, data: { ...bundle.data, ciphertext: flipFirstByte(bundle.data.ciphertext) } };
+    await expect(dst.importData(JSON.stringify(corrupted), "export-pw")).rejects.toMatchObject({
+      name: "CorruptImportDataError"
+    });
+    await expect(dst.importData(JSON.stringify(corrupted), "export-pw")).rejects.toBeInstanceOf(ImportError);
+    await expect(dst.importData(JSON.stringify(bundle), "other-pw")).rejects.not.toBeInstanceOf(InvalidPasswordError);
+  });
+
+  it("falls back to ImportError when the key check value is missing", async () => {
+    const sls = secureLocalStorage({ storageKey: "test:pwerr:legacy:src" });
+    await sls.setData({ a: 1 });
+    const bundle = JSON.parse(await sls.exportData("export-pw"));
+    delete bundle.header.kcv;
+
+    // Without a kcv a wrong password cannot be told apart; the data AAD also notices the stripped field.
+    const dst = secureLocalStorage({ storageKey: "test:pwerr:legacy:dst" });
+    await expect(dst.importData(JSON.stringify(bundle), "other-pw")).rejects.toMatchObject({ name: "ImportError" });
+    await expect(dst.importData(JSON.stringify(bundle), "export-pw")).rejects.toMatchObject({ name: "ImportError" });
+  });
+});
@@ -0,0 +1,49 @@
+import "../setup";
+import secureLocalStorage from "../../src";
+import { StorageService } from "../../src/storage/StorageService";
+import type { PersistedConfigV4 } from "../../src/types";
+
+const pbkdf2 = { alg: "pbkdf2-sha256" as const, time: 100_000 };
+
+describe("PBKDF2 fallback KDF", () => {
+  it("records the descriptor and unlocks in a fresh instance", async () => {
+    const storageKey = "test:pbkdf2:reopen";
+    const writer = secureLocalStorage({ storageKey, kdf: pbkdf2 });
+    await writer.setMasterPassword("pw");
+    await writer.setData({ v: 1 });
+
+    const { header } = (await new StorageService(storageKey).get()) as PersistedConfigV4;
+    expect(header.kdf).toEqual({ ...pbkdf2, hashLen: 32 });
+    expect(header.rounds).toBe(pbkdf2.time);
+
+    const reader = secureLocalStorage({ storageKey, kdf: pbkdf2 });
+    await reader.unlock("pw");
+    expect((await reader.getData<{ v: number }>()).v).toBe(1);
+  });
+
+  it("upgrades to Argon2id when the instance policy asks for it", async () => {
+    const storageKey = "test:pbkdf2:upgrade";
+    const writer = secureLocalStorage({ storageKey, kdf: pbkdf2 });
+    await writer.setMasterPassword("pw");
+
+    const reader = secureLocalStorage({ storageKey });
+    const upgraded = new Promise((resolve) => reader.on("kdf-upgraded", resolve));
+    await reader.unlock("pw");
+    expect(await upgraded).toMatchObject({ slotId: "primary", previous: { alg: "pbkdf2-sha256" }, kdf: { alg: "argon2id" } });
+    const { header } = (await new StorageService(storageKey).get()) as PersistedConfigV4;
+    expect(header.kdf!.alg).toBe("argon2id");
+  });
+
+  it("keeps a store that needs an unknown KDF and rejects unlock with KdfUnavailableError", async () => {
+    const storageKey = "test:pbkdf2:unknown";
+    const writer = secureLocalStorage({ storageKey });
+    await writer.setMasterPassword("pw");
+    const svc = new StorageService(storageKey);
+    const cfg = (await svc.get()) as PersistedConfigV4;
+    await svc.set({ ...cfg, header: { ...cfg.header, kdf: { ...cfg.header.kdf!, alg: "scrypt" as any } } });
+
+    const reader = secureLocalStorage({ storageKey });
+    await expect(reader.unlock("pw")).rejects.toMatchObject({ name: "KdfUnavailableError" });
+    expect(((await svc.get()) as PersistedConfigV4).header.kdf!.alg).toBe("scrypt");
+  });
+});
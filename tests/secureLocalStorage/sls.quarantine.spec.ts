@@ -0,0 +1,124 @@
+import "../setup";
+import secureLocalStorage from "../../src";
+import { DeviceKeyProvider } from "../../src/crypto/DeviceKeyProvider";
+import { MemoryStorageAdapter } from "../../src/storage/StorageAdapter";
+import { openDB } from "../../src/utils/idb";
+
+async function foreignKek(): Promise<CryptoKey> {
+  return await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["wrapKey", "unwrapKey"]);
+}
+
+describe("SecureLocalStorage quarantine option", () => {
+  const idbConfig = { dbName: "SLS_KEYS_QUARANTINE", storeName: "keys", keyId: "deviceKek_quarantine" };
+
+  beforeEach(async () => {
+    await DeviceKeyProvider.deletePersistent(idbConfig);
+    jest.restoreAllMocks();
+  });
+
+  it("moves an undecryptable envelope aside and restores it once the device KEK is back", async () => {
+    const storageKey = "test:quarantine:kek";
+    const storage = new MemoryStorageAdapter();
+    const sls = secureLocalStorage({ storageKey, storage, idbConfig, quarantine: true });
+    await sls.setData({ secret: "keep me" });
+    const original = storage.getItem(storageKey);
+
+    // IndexedDB temporarily hands out a different KEK (e.g. blocked or recreated database)
+    jest.spyOn(DeviceKeyProvider, "getKey").mockImplementationOnce(foreignKek);
+    const sls2 = secureLocalStorage({ storageKey, storage, idbConfig, quarantine: true });
+    const fresh = await sls2.getData();
+    expect(sls2.lastResetReason).toBe("device-kek-mismatch");
+    expect(Object.keys(fresh)).toEqual(["clear"]);
+
+    const entries = await sls2.listQuarantined();
+    expect(entries.length).toBe(1);
+    const entry = entries[0]!;
+    expect(entry.reason).toBe("device-kek-mismatch");
+    expect(await sls2.exportQuarantined(entry.id)).toBe(original!);
+
+    expect(await sls2.retryQuarantined(entry.id)).toBe("device");
+    const view = await sls2.getData<{ secret: string }>();
+    expect(view.secret).toBe("keep me");
+    view.clear();
+    expect(await sls2.listQuarantined()).toEqual([]);
+  });
+
+  it("restores a password-protected envelope unlocked", async () => {
+    const storageKey = "test:quarantine:master";
+    const storage = new MemoryStorageAdapter();
+    const sls = secureLocalStorage({ storageKey, storage, idbConfig, quarantine: true });
+    await sls.setMasterPassword("pw-1");
+    await sls.setData({ a: 1 });
+    const payload = storage.getItem(storageKey)!;
+
+    await sls.quarantine.add("invalid-config", payload);
+    const entry = (await sls.listQuarantined())[0]!;
+    await expect(sls.retryQuarantined(entry.id)).rejects.toMatchObject({ name: "ValidationError" });
+    await expect(sls.retryQuarantined(entry.id, "wrong")).rejects.toMatchObject({ name: "InvalidPasswordError" });
+
+    await sls.clear();
+    expect(await sls.retryQuarantined(entry.id, "pw-1")).toBe("masterPassword");
+    expect(sls.isUsingMasterPassword()).toBe(true);
+    expect(sls.isLocked()).toBe(false);
+    const view = await sls.getData<{ a: number }>();
+    expect(view.a).toBe(1);
+    view.clear();
+  });
+
+  it("keeps invalid envelopes for export and discards them on request", async () => {
+    const storageKey = "test:quarantine:invalid";
+    const storage = new MemoryStorageAdapter();
+    storage.setItem(storageKey, "{not json");
+
+    const sls = secureLocalStorage({ storageKey, storage, idbConfig, quarantine: true });
+    await sls.getData();
+    expect(sls.lastResetReason).toBe("invalid-config");
+
+    const entry = (await sls.listQuarantined())[0]!;
+    expect(await sls.exportQuarantined(entry.id)).toBe("{not json");
+    await expect(sls.retryQuarantined(entry.id)).rejects.toMatchObject({ name: "ImportError" });
+
+    await sls.discardQuarantined(entry.id);
+    expect(await sls.listQuarantined()).toEqual([]);
+    expect(storage.getItem(`${storageKey}#quarantine`)).toBeNull();
+    await expect(sls.exportQuarantined(entry.id)).rejects.toMatchObject({ name: "ValidationError" });
+  });
+
+  it("does not quarantine by default", async () => {
+    const storageKey = "test:quarantine:off";
+    const storage = new MemoryStorageAdapter();
+    storage.setItem(storageKey, "{not json");
+
+    const sls = secureLocalStorage({ storageKey, storage, idbConfig });
+    await sls.getData();
+    expect(await sls.listQuarantined()).toEqual([]);
+  });
+
+  it("quarantines malformed IndexedDB records in IndexedDB", async () => {
+    const storageKey = "test:quarantine:idb";
+    const idbDataConfig = { dbName: "SLS_DATA_QUARANTINE", storeName: "envelopes" };
+    const storage = new MemoryStorageAdapter();
+    const db = await openDB(idbDataConfig.dbName, idbDataConfig.storeName);
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(idbDataConfig.storeName, "readwrite");
+      tx.objectStore(idbDataConfig.storeName).put({ id: storageKey, header: "junk", data: { iv: new Uint8Array([1]) } });
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    db.close();
+
+    const opts = { storageKey, storage, idbConfig, idbDataConfig, dataStore: "indexedDB" as const, quarantine: true };
+    const sls = secureLocalStorage(opts);
+    await sls.getData();
+    expect(sls.lastResetReason).toBe("invalid-config");
+
+    const entries = await secureLocalStorage(opts).listQuarantined();
+    expect(entries.length).toBe(1);
+    expect(JSON.parse(await sls.exportQuarantined(entries[0]!.id))).toEqual({
+      id: storageKey,
+      header: "junk",
+      data: { iv: "AQ==" }
+    });
+    expect(storage.getItem(`${storageKey}#quarantine`)).toBeNull();
+  });
+});
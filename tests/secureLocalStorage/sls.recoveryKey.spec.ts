@@ -0,0 +1,79 @@
+import "../setup";
+import secureLocalStorage from "../../src";
+import { DeviceKeyProvider } from "../../src/crypto/DeviceKeyProvider";
+import { MemoryStorageAdapter } from "../../src/storage/StorageAdapter";
+
+describe("SecureLocalStorage recovery key", () => {
+  const idbConfig = { dbName: "SLS_KEYS_RECOVERY", storeName: "keys", keyId: "deviceKek_recovery" };
+
+  beforeEach(async () => {
+    await DeviceKeyProvider.deletePersistent(idbConfig);
+  });
+
+  it("resets a forgotten master password with the recovery key", async () => {
+    const storageKey = "test:recovery:reset";
+    const storage = new MemoryStorageAdapter();
+    const sls = secureLocalStorage({ storageKey, storage, idbConfig });
+    await sls.setData({ note: "important" });
+    await sls.setMasterPassword("forgotten");
+    const code = await sls.createRecoveryKey();
+
+    const reopened = secureLocalStorage({ storageKey, storage, idbConfig });
+    await reopened.whenReady();
+    expect(reopened.isLocked()).toBe(true);
+    await expect(reopened.unlockWithRecoveryKey(code.replace(/^..../, "AAAA"), "new-pw"))
+      .rejects.toMatchObject({ name: "ValidationError" });
+    await expect(reopened.unlockWithRecoveryKey(code, "  ")).rejects.toMatchObject({ name: "ValidationError" });
+
+    await reopened.unlockWithRecoveryKey(code.toLowerCase(), "new-pw");
+    expect(reopened.isLocked()).toBe(false);
+    const view = await reopened.getData<{ note: string }>();
+    expect(view.note).toBe("important");
+    view.clear();
+
+    reopened.lock();
+    await expect(reopened.unlock("forgotten")).rejects.toMatchObject({ name: "InvalidPasswordError" });
+    await reopened.unlock("new-pw");
+
+    // The recovery key stays valid for the next time
+    reopened.lock();
+    await reopened.unlockWithRecoveryKey(code, "newer-pw");
+    expect(reopened.isLocked()).toBe(false);
+  });
+
+  it("keeps no DEK in memory when setting the new password fails", async () => {
+    const storage = new MemoryStorageAdapter();
+    const sls = secureLocalStorage({ storageKey: "test:recovery:fail", storage, idbConfig });
+    await sls.setMasterPassword("pw");
+    const code = await sls.createRecoveryKey();
+    sls.lock();
+
+    const spy = jest.spyOn(sls, "deriveKekFromPassword" as any).mockRejectedValue(new Error("out of memory"));
+    await expect(sls.unlockWithRecoveryKey(code, "new-pw")).rejects.toThrow("out of memory");
+    spy.mockRestore();
+    expect(sls.isLocked()).toBe(true);
+    expect(sls.dek).toBeNull();
+
+    await sls.unlock("pw");
+  });
+
+  it("replaces the previous recovery key and requires master-password mode", async () => {
+    const storage = new MemoryStorageAdapter();
+    const sls = secureLocalStorage({ storageKey: "test:recovery:replace", storage, idbConfig });
+    await expect(sls.createRecoveryKey()).rejects.toMatchObject({ name: "ModeError" });
+    await expect(sls.unlockWithRecoveryKey("x", "y")).rejects.toMatchObject({ name: "ModeError" });
+
+    await sls.setMasterPassword("pw");
+    await expect(sls.unlockWithRecoveryKey("x", "y")).rejects.toMatchObject({ name: "ValidationError" });
+    const first = await sls.createRecoveryKey();
+    const second = await sls.createRecoveryKey();
+    expect(second).not.toBe(first);
+
+    const slots = await sls.listKeySlots();
+    expect(slots.filter((s) => s.kind === "recovery").length).toBe(1);
+
+    sls.lock();
+    await expect(sls.unlockWithRecoveryKey(first, "new-pw")).rejects.toMatchObject({ name: "ValidationError" });
+    await sls.unlockWithRecoveryKey(second, "new-pw");
+  });
+});
@@ -0,0 +1,167 @@
+import "../setup";
+import secureLocalStorage, { type KekProvider } from "../../src";
+import { DeviceKeyProvider } from "../../src/crypto/DeviceKeyProvider";
+import { MemoryStorageAdapter } from "../../src/storage/StorageAdapter";
+import { StorageService } from "../../src/storage/StorageService";
+import type { PersistedConfigV5 } from "../../src/types";
+
+const kdf = { time: 2, memKiB: 8 * 1024 };
+
+describe("SecureLocalStorage rollback detection", () => {
+  it("bumps the header revision and the recorded counter on every persist", async () => {
+    const storageKey = "test:rollback:counter";
+    const svc = new StorageService(storageKey);
+    const sls = secureLocalStorage({ storageKey });
+    await sls.setData({ a: 1 });
+    const first = ((await svc.get()) as PersistedConfigV5).header.rev!;
+
+    await sls.setData({ a: 2 });
+    const second = ((await svc.get()) as PersistedConfigV5).header.rev!;
+    expect(second).toBe(first + 1);
+    expect(await DeviceKeyProvider.getRevision(storageKey)).toBe(second);
+  });
+
+  it("seals setData once instead of re-encrypting the stored payload", async () => {
+    const sls = secureLocalStorage({ storageKey: "test:rollback:single-seal" });
+    await sls.setData({ a: 1 });
+    const encrypt = jest.spyOn(sls.enc, "encryptData");
+    const decrypt = jest.spyOn(sls.enc, "decryptData");
+    await sls.setData({ a: 2 });
+    expect(encrypt).toHaveBeenCalledTimes(1);
+    expect(decrypt).not.toHaveBeenCalled();
+  });
+
+  it("keeps counting when another instance wrote since this one loaded", async () => {
+    const storageKey = "test:rollback:tabs";
+    const a = secureLocalStorage({ storageKey });
+    const b = secureLocalStorage({ storageKey });
+    await Promise.all([a.whenReady(), b.whenReady()]);
+
+    await a.setData({ from: "a1" });
+    await a.setData({ from: "a2" });
+    await b.setData({ from: "b" });
+
+    const view = await secureLocalStorage({ storageKey }).getData<{ from: string }>();
+    expect(view.from).toBe("b");
+    view.clear();
+  });
+
+  it("refuses to load an older envelope that restores a previous master password", async () => {
+    const storageKey = "test:rollback:replay";
+    const svc = new StorageService(storageKey);
+    const sls = secureLocalStorage({ storageKey, kdf });
+    await sls.setMasterPassword("old-pw");
+    const snapshot = await svc.get();
+
+    await sls.rotateMasterPassword("old-pw", "new-pw");
+    await svc.set(snapshot!);
+
+    const replayed = secureLocalStorage({ storageKey, kdf, strict: true });
+    await expect(replayed.whenReady()).rejects.toMatchObject({ name: "RollbackDetectedError" });
+    expect(await svc.get()).toEqual(snapshot); // left untouched for inspection
+
+    await replayed.clear();
+    await replayed.setData({ fresh: true });
+    await expect(secureLocalStorage({ storageKey, kdf }).whenReady()).resolves.toBeUndefined();
+  });
+
+  it("resets a replayed envelope without strict and keeps it in quarantine", async () => {
+    const storageKey = "test:rollback:replay:reset";
+    const svc = new StorageService(storageKey);
+    const sls = secureLocalStorage({ storageKey, kdf });
+    await sls.setMasterPassword("old-pw");
+    const snapshot = await svc.get();
+    await sls.rotateMasterPassword("old-pw", "new-pw");
+    await svc.set(snapshot!);
+
+    const replayed = secureLocalStorage({ storageKey, kdf, quarantine: true });
+    await expect(replayed.whenReady()).resolves.toBeUndefined();
+    expect(replayed.lastResetReason).toBe("rollback-detected");
+    expect(replayed.isUsingMasterPassword()).toBe(false);
+    const [entry] = await replayed.listQuarantined();
+    expect(entry?.reason).toBe("rollback-detected");
+  });
+
+  it("resets a device-mode envelope replayed with a raised rev", async () => {
+    const storageKey = "test:rollback:forged";
+    const svc = new StorageService(storageKey);
+    const sls = secureLocalStorage({ storageKey });
+    await sls.setData({ a: 1 });
+    const old = (await svc.get()) as PersistedConfigV5;
+    await sls.setData({ a: 2 });
+
+    const forged = { ...old, header: { ...old.header, rev: old.header.rev! + 5 } };
+    await svc.set(forged);
+    const strict = secureLocalStorage({ storageKey, strict: true });
+    await expect(strict.whenReady()).rejects.toMatchObject({ name: "RollbackDetectedError" });
+    expect(await svc.get()).toEqual(forged);
+
+    const reset = secureLocalStorage({ storageKey });
+    await expect(reset.whenReady()).resolves.toBeUndefined();
+    expect(reset.lastResetReason).toBe("rollback-detected");
+    const view = await reset.getData();
+    expect(view.a).toBeUndefined();
+    view.clear();
+  });
+
+  it("refuses to unlock a master-password envelope replayed with a raised rev", async () => {
+    const storageKey = "test:rollback:forged:master";
+    const svc = new StorageService(storageKey);
+    const sls = secureLocalStorage({ storageKey, kdf });
+    await sls.setMasterPassword("old-pw");
+    const old = (await svc.get()) as PersistedConfigV5;
+    await sls.rotateMasterPassword("old-pw", "new-pw");
+    await sls.setData({ secret: 1 });
+    const current = ((await svc.get()) as PersistedConfigV5).header.rev!;
+
+    await svc.set({ ...old, header: { ...old.header, rev: current + 5 } });
+    const replayed = secureLocalStorage({ storageKey, kdf });
+    await expect(replayed.whenReady()).resolves.toBeUndefined();
+    expect(replayed.isLocked()).toBe(true);
+    await expect(replayed.unlock("old-pw")).rejects.toMatchObject({ name: "RollbackDetectedError" });
+    expect(replayed.isLocked()).toBe(true);
+    await expect(replayed.setData({ secret: 2 })).rejects.toMatchObject({ name: "LockedError" });
+  });
+
+  it("does not auto-unlock a replayed device key slot with a raised rev", async () => {
+    const storageKey = "test:rollback:forged:slot";
+    const svc = new StorageService(storageKey);
+    const sls = secureLocalStorage({ storageKey, kdf });
+    await sls.setMasterPassword("old-pw");
+    await sls.addDeviceSlot();
+    const old = (await svc.get()) as PersistedConfigV5;
+    await sls.rotateMasterPassword("old-pw", "new-pw");
+    const current = ((await svc.get()) as PersistedConfigV5).header.rev!;
+
+    await svc.set({ ...old, header: { ...old.header, rev: current + 5 } });
+    const strict = secureLocalStorage({ storageKey, kdf, strict: true });
+    await expect(strict.whenReady()).rejects.toMatchObject({ name: "RollbackDetectedError" });
+
+    const reset = secureLocalStorage({ storageKey, kdf });
+    await expect(reset.whenReady()).resolves.toBeUndefined();
+    expect(reset.lastResetReason).toBe("rollback-detected");
+    expect(reset.isUsingMasterPassword()).toBe(false);
+  });
+
+  it("is off for providers without revision support", async () => {
+    let key: CryptoKey | null = null;
+    const kekProvider: KekProvider = {
+      getKey: async () =>
+        (key ??= (await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["wrapKey", "unwrapKey"])) as CryptoKey),
+      deletePersistent: async () => { key = null; }
+    };
+    const storage = new MemoryStorageAdapter();
+    const storageKey = "test:rollback:noProvider";
+    const svc = new StorageService(storageKey, storage);
+
+    const sls = secureLocalStorage({ storageKey, storage, kekProvider });
+    await sls.setData({ a: 1 });
+    const snapshot = await svc.get();
+    await sls.setData({ a: 2 });
+    await svc.set(snapshot!);
+
+    const view = await secureLocalStorage({ storageKey, storage, kekProvider }).getData<{ a: number }>();
+    expect(view.a).toBe(1);
+    view.clear();
+  });
+});
@@ -0,0 +1,57 @@
+import "../setup";
+import secureLocalStorage, { CorruptConfigError, SlsError } from "../../src";
+import { DeviceKeyProvider } from "../../src/crypto/DeviceKeyProvider";
+import { MemoryStorageAdapter } from "../../src/storage/StorageAdapter";
+
+describe("SecureLocalStorage strict option", () => {
+  const idbConfig = { dbName: "SLS_KEYS_STRICT", storeName: "keys", keyId: "deviceKek_strict" };
+
+  beforeEach(async () => {
+    await DeviceKeyProvider.deletePersistent(idbConfig);
+    jest.restoreAllMocks();
+  });
+
+  it("rejects with CorruptConfigError and leaves the envelope in place", async () => {
+    const storageKey = "test:strict:corrupt";
+    const storage = new MemoryStorageAdapter();
+    storage.setItem(storageKey, "{not json");
+
+    const sls = secureLocalStorage({ storageKey, storage, idbConfig, strict: true });
+    await expect(sls.getData()).rejects.toMatchObject({ name: "CorruptConfigError" });
+    await expect(sls.whenReady()).rejects.toBeInstanceOf(CorruptConfigError);
+    await expect(sls.whenReady()).rejects.toBeInstanceOf(SlsError);
+    await expect(sls.setData({ a: 1 })).rejects.toMatchObject({ name: "CorruptConfigError" });
+    expect(sls.lastResetReason).toBeNull();
+    expect(storage.getItem(storageKey)).toBe("{not json");
+  });
+
+  it("rejects with DeviceKeyMismatchError when the device KEK cannot unwrap", async () => {
+    const storageKey = "test:strict:kek";
+    const storage = new MemoryStorageAdapter();
+    const sls = secureLocalStorage({ storageKey, storage, idbConfig });
+    await sls.setData({ a: 1 });
+    const before = storage.getItem(storageKey);
+
+    jest.spyOn(DeviceKeyProvider, "getKey").mockImplementationOnce(async () =>
+      crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["wrapKey", "unwrapKey"])
+    );
+    const sls2 = secureLocalStorage({ storageKey, storage, idbConfig, strict: true });
+    await expect(sls2.getData()).rejects.toMatchObject({ name: "DeviceKeyMismatchError" });
+    expect(storage.getItem(storageKey)).toBe(before);
+  });
+
+  it("clear() recovers a failed strict initialization", async () => {
+    const storageKey = "test:strict:clear";
+    const storage = new MemoryStorageAdapter();
+    storage.setItem(storageKey, "{not json");
+
+    const sls = secureLocalStorage({ storageKey, storage, idbConfig, strict: true });
+    await expect(sls.getData()).rejects.toMatchObject({ name: "CorruptConfigError" });
+
+    await sls.clear();
+    await sls.setData({ ok: true });
+    const view = await sls.getData<{ ok: boolean }>();
+    expect(view.ok).toBe(true);
+    view.clear();
+  });
+});
@@ -0,0 +1,53 @@
+import "../setup";
+import secureLocalStorage from "../../src";
+import { handleKdfRequest, type KdfWorkerRequest } from "../../src/crypto/KdfWorker";
+
+class FakeWorker {
+  static messages = 0;
+  onmessage: ((e: { data: unknown }) => void) | null = null;
+  onerror: ((e: unknown) => void) | null = null;
+
+  postMessage(req: KdfWorkerRequest) {
+    FakeWorker.messages++;
+    setTimeout(async () => this.onmessage?.({ data: await handleKdfRequest(req) }), 0);
+  }
+
+  terminate() {}
+}
+
+const kdf = { time: 2, memKiB: 8 * 1024 };
+
+describe("unlock options", () => {
+  it("derives in the kdfWorker and reports progress", async () => {
+    const storageKey = "test:unlock-opts:worker";
+    const kdfWorker = () => new FakeWorker() as unknown as Worker;
+    const writer = secureLocalStorage({ storageKey, kdf, kdfWorker });
+    await writer.setMasterPassword("pw");
+    await writer.addPasswordSlot("other-pw");
+    await writer.setData({ n: 1 });
+
+    const before = FakeWorker.messages;
+    const reader = secureLocalStorage({ storageKey, kdf, kdfWorker });
+    const progress: number[] = [];
+    await reader.unlock("other-pw", { onProgress: (p) => progress.push(p) });
+    expect((await reader.getData<{ n: number }>()).n).toBe(1);
+    expect(FakeWorker.messages - before).toBe(2);
+    expect(progress).toEqual([0, 0.5, 1]);
+  });
+
+  it("an aborted unlock rejects and leaves the store locked", async () => {
+    const storageKey = "test:unlock-opts:abort";
+    const writer = secureLocalStorage({ storageKey, kdf });
+    await writer.setMasterPassword("pw");
+
+    const reader = secureLocalStorage({ storageKey, kdf });
+    const ctl = new AbortController();
+    const pending = reader.unlock("pw", { signal: ctl.signal });
+    ctl.abort();
+    await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+    expect(reader.isLocked()).toBe(true);
+
+    await reader.unlock("pw");
+    expect(reader.isLocked()).toBe(false);
+  });
+});
@@ -4,6 +4,8 @@ import { StorageService } from "../../src/storage/StorageService";
 import { EncryptionManager } from "../../src/crypto/EncryptionManager";
 import { DeviceKeyProvider } from "../../src/crypto/DeviceKeyProvider";
 import { CryptoError } from "../../src/errors";
+import { SLS_CONSTANTS } from "../../src/constants";
+import { VersionManager } from "../../src/api/sls/VersionManager";
 
 /**
  * Ensures ciphertext is bound to the header via AAD:
@@ -18,15 +20,15 @@ describe("v3 AAD binding prevents mix-and-match", () => {
 
     // Read persisted config
     const svc = new StorageService(storageKey);
-    const cfg = svc.get()!;
-    expect(cfg.header.v).toBe(3);
+    const cfg = (await svc.get())!;
+    expect(cfg.header.v).toBe(SLS_CONSTANTS.MIGRATION_TARGET_VERSION);
 
     // Tamper: swap the header to a fresh wrap (iv/wrappedKey) but leave data untouched
     const enc = new EncryptionManager();
     const deviceKek = await DeviceKeyProvider.getKey();
 
-    const te = new TextEncoder();
-    const wrapAad = te.encode(`sls|wrap|v3|${storageKey}`);
+    const vm = new VersionManager(storageKey, { dbName: "", storeName: "", keyId: "" }, enc);
+    const wrapAad = vm.getAadFor("wrap", cfg);
     const tmpDek = await enc.createDek();
     const wrappedNew = await enc.wrapDek(tmpDek, deviceKek, wrapAad);
 
@@ -35,10 +37,16 @@ describe("v3 AAD binding prevents mix-and-match", () => {
     // keep ctx:"store"
     // @ts-ignore
     cfg.header.ctx = "store";
-    svc.set(cfg as any);
+    await svc.set(cfg as any);
 
-    // Now any getData should fail because data AAD uses header.iv/wrappedKey
-    const sls2 = secureLocalStorage({ storageKey });
-    await expect(sls2.getData()).rejects.toBeInstanceOf(CryptoError);
+    // Now the data no longer decrypts because data AAD uses header.iv/wrappedKey; startup refuses the envelope
+    // (it cannot be told apart from one replayed with a raised rev)
+    const sls2 = secureLocalStorage({ storageKey, strict: true });
+    await expect(sls2.getData()).rejects.toMatchObject({ name: "RollbackDetectedError" });
+    const vm2 = new VersionManager(storageKey, { dbName: "", storeName: "", keyId: "" }, enc);
+    const dek = await enc.unwrapDek(cfg.header.iv, cfg.header.wrappedKey, deviceKek, false, vm2.getAadFor("wrap", cfg));
+    await expect(
+      enc.decryptData(dek, cfg.data.iv, cfg.data.ciphertext, vm2.getAadFor("data", cfg))
+    ).rejects.toBeInstanceOf(CryptoError);
   });
 });
\ No newline at end of file
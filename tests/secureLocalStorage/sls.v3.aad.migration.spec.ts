@@ -6,10 +6,12 @@ import { DeviceKeyProvider } from "../../src/crypto/DeviceKeyProvider";
 import { SLS_CONSTANTS } from "../../src/constants";
 import { base64ToBytes } from "../../src/utils/base64";
 import { deriveKekFromPassword } from "../../src/crypto/KeyDerivation";
-import { LockedError } from "../../src/errors";
+import { LockedError, StorageFullError } from "../../src/errors";
+import { MemoryStorageAdapter } from "../../src/storage/StorageAdapter";
+import { VersionManager } from "../../src/api/sls/VersionManager";
 
 describe("v3 AAD migration", () => {
-  it("device-mode: v2 store migrates to v3 immediately", async () => {
+  it("device-mode: v2 store migrates to the latest version immediately", async () => {
     const storageKey = "test:v3:migrate:device";
     const svc = new StorageService(storageKey);
     const enc = new EncryptionManager();
@@ -20,7 +22,7 @@ describe("v3 AAD migration", () => {
     const { ivWrap, wrappedKey } = await enc.wrapDek(dek, deviceKek, undefined);
     const { iv, ciphertext } = await enc.encryptData(dek, { a: 1 }, undefined);
 
-    svc.set({
+    await svc.set({
       header: { v: 2, salt: "", rounds: 1, iv: ivWrap, wrappedKey },
       data: { iv, ciphertext }
     } as any);
@@ -30,14 +32,14 @@ describe("v3 AAD migration", () => {
     expect(view.a).toBe(1);
     view.clear();
 
-    // After first access, the store should be v3 with ctx:"store"
-    const after = svc.get()!;
-    expect(after.header.v).toBe(3);
+    // After first access, the store should be at the latest version with ctx:"store"
+    const after = (await svc.get())!;
+    expect(after.header.v).toBe(SLS_CONSTANTS.MIGRATION_TARGET_VERSION);
     // @ts-ignore
     expect(after.header.ctx).toBe("store");
   });
 
-  it("master-mode: v2 store migrates to v3 on unlock()", async () => {
+  it("master-mode: v2 store migrates to the latest version on unlock()", async () => {
     const storageKey = "test:v3:migrate:master";
     const svc = new StorageService(storageKey);
     const enc = new EncryptionManager();
@@ -50,7 +52,7 @@ describe("v3 AAD migration", () => {
     const { ivWrap, wrappedKey } = await enc.wrapDek(dek, kek, undefined);
     const { iv, ciphertext } = await enc.encryptData(dek, { b: 2 }, undefined);
 
-    svc.set({
+    await svc.set({
       header: { v: 2, salt: saltB64, rounds: SLS_CONSTANTS.ARGON2.ITERATIONS, iv: ivWrap, wrappedKey },
       data: { iv, ciphertext }
     } as any);
@@ -64,9 +66,40 @@ describe("v3 AAD migration", () => {
     expect(view.b).toBe(2);
     view.clear();
 
-    const after = svc.get()!;
-    expect(after.header.v).toBe(3);
+    const after = (await svc.get())!;
+    expect(after.header.v).toBe(SLS_CONSTANTS.MIGRATION_TARGET_VERSION);
     // @ts-ignore
     expect(after.header.ctx).toBe("store");
   });
-});
\ No newline at end of file
+
+  it("device-mode: a migration that cannot be written keeps the old envelope", async () => {
+    const storageKey = "test:v3:migrate:quota";
+    const storage = new MemoryStorageAdapter();
+    const svc = new StorageService(storageKey, storage);
+    const enc = new EncryptionManager();
+    const vm = new VersionManager(storageKey, { dbName: "", storeName: "", keyId: "" }, enc);
+
+    // Build a v3 device-mode bundle manually
+    const dek = await enc.createDek();
+    const deviceKek = await DeviceKeyProvider.getKey();
+    const fields = { v: 3 as const, salt: "", rounds: 1, ctx: "store" as const };
+    const { ivWrap, wrappedKey } = await enc.wrapDek(dek, deviceKek, vm.buildWrapAad(fields));
+    const header = { ...fields, iv: ivWrap, wrappedKey };
+    const { iv, ciphertext } = await enc.encryptData(dek, { a: 1 }, vm.buildDataAad(header));
+    await svc.set({ header, data: { iv, ciphertext } });
+    const original = storage.getItem(storageKey);
+
+    const setItem = storage.setItem.bind(storage);
+    storage.setItem = () => { throw new DOMException("quota", "QuotaExceededError"); };
+    const sls = secureLocalStorage({ storageKey, storage });
+    await expect(sls.whenReady()).rejects.toBeInstanceOf(StorageFullError);
+    expect(sls.lastResetReason).toBeNull();
+    expect(storage.getItem(storageKey)).toBe(original);
+
+    // Once there is room again the migration goes through
+    storage.setItem = setItem;
+    const view = await secureLocalStorage({ storageKey, storage }).getData<{ a: number }>();
+    expect(view.a).toBe(1);
+    view.clear();
+  });
+});
@@ -0,0 +1,124 @@
+import "../setup";
+import secureLocalStorage from "../../src";
+import { StorageService } from "../../src/storage/StorageService";
+import { EncryptionManager } from "../../src/crypto/EncryptionManager";
+import { SLS_CONSTANTS } from "../../src/constants";
+import { base64ToBytes } from "../../src/utils/base64";
+import { deriveKekFromPassword } from "../../src/crypto/KeyDerivation";
+import type { KdfDescriptor, PersistedConfigV4 } from "../../src/types";
+
+const te = new TextEncoder();
+
+/** Build a master-password store by hand at the given header version, bound with the v3+ AAD layout. */
+async function seedMasterStore(
+  storageKey: string,
+  pw: string,
+  v: 3 | 4,
+  kdf?: KdfDescriptor
+): Promise<void> {
+  const enc = new EncryptionManager();
+  const saltB64 = enc.generateSaltB64();
+  const rounds = kdf?.time ?? SLS_CONSTANTS.ARGON2.ITERATIONS;
+  const kek = await deriveKekFromPassword(pw, base64ToBytes(saltB64), kdf ?? rounds);
+  const dek = await enc.createDek();
+  const { ivWrap, wrappedKey } = await enc.wrapDek(dek, kek, te.encode(`sls|wrap|v${v}|${storageKey}`));
+  const data = await enc.encryptData(
+    dek,
+    { n: 7 },
+    te.encode(`sls|data|v${v}|${storageKey}|${ivWrap}|${wrappedKey}`)
+  );
+  await new StorageService(storageKey).set({
+    header: { v, salt: saltB64, rounds, iv: ivWrap, wrappedKey, ctx: "store", ...(kdf ? { kdf } : {}) },
+    data
+  } as any);
+}
+
+describe("v4 header: self-describing KDF", () => {
+  it("new master-password stores record the full KDF descriptor", async () => {
+    const storageKey = "test:v4:kdf:new";
+    const sls = secureLocalStorage({ storageKey });
+    await sls.setMasterPassword("pw-1");
+
+    const cfg = (await new StorageService(storageKey).get()) as PersistedConfigV4;
+    expect(cfg.header.v).toBe(SLS_CONSTANTS.MIGRATION_TARGET_VERSION);
+    expect(cfg.header.kdf).toEqual({
+      alg: "argon2id",
+      time: SLS_CONSTANTS.ARGON2.ITERATIONS,
+      memKiB: SLS_CONSTANTS.ARGON2.MEMORY_KIB,
+      parallelism: SLS_CONSTANTS.ARGON2.PARALLELISM,
+      hashLen: SLS_CONSTANTS.ARGON2.HASH_LEN
+    });
+    expect(cfg.header.rounds).toBe(cfg.header.kdf!.time);
+  });
+
+  it("device-mode stores carry no descriptor", async () => {
+    const storageKey = "test:v4:kdf:device";
+    const sls = secureLocalStorage({ storageKey });
+    await sls.whenReady();
+    const cfg = (await new StorageService(storageKey).get()) as PersistedConfigV4;
+    expect(cfg.header.v).toBe(SLS_CONSTANTS.MIGRATION_TARGET_VERSION);
+    expect(cfg.header.kdf).toBeUndefined();
+  });
+
+  it("v3 master store migrates on unlock and records the legacy parameters", async () => {
+    const storageKey = "test:v4:kdf:migrate";
+    await seedMasterStore(storageKey, "pw-legacy", 3);
+
+    const sls = secureLocalStorage({ storageKey });
+    await sls.unlock("pw-legacy");
+    const view = await sls.getData<{ n: number }>();
+    expect(view.n).toBe(7);
+    view.clear();
+
+    const cfg = (await new StorageService(storageKey).get()) as PersistedConfigV4;
+    expect(cfg.header.v).toBe(SLS_CONSTANTS.MIGRATION_TARGET_VERSION);
+    expect(cfg.header.kdf).toEqual({
+      alg: "argon2id",
+      time: SLS_CONSTANTS.ARGON2.ITERATIONS,
+      memKiB: SLS_CONSTANTS.ARGON2_LEGACY.MEMORY_KIB,
+      parallelism: SLS_CONSTANTS.ARGON2_LEGACY.PARALLELISM,
+      hashLen: SLS_CONSTANTS.ARGON2_LEGACY.HASH_LEN
+    });
+
+    // The same password still opens the migrated store in a fresh instance.
+    const reopened = secureLocalStorage({ storageKey });
+    await reopened.unlock("pw-legacy");
+    expect((await reopened.getData<{ n: number }>()).n).toBe(7);
+  });
+
+  it("unlock derives the KEK from the descriptor stored in the header", async () => {
+    const storageKey = "test:v4:kdf:custom";
+    const kdf: KdfDescriptor = { alg: "argon2id", time: 3, memKiB: 8 * 1024, parallelism: 2, hashLen: 32 };
+    await seedMasterStore(storageKey, "pw-custom", 4, kdf);
+
+    const sls = secureLocalStorage({ storageKey });
+    await sls.unlock("pw-custom");
+    expect((await sls.getData<{ n: number }>()).n).toBe(7);
+    expect(((await new StorageService(storageKey).get()) as PersistedConfigV4).header.kdf).toEqual(kdf);
+  });
+
+  it("exports embed the descriptor and import back", async () => {
+    const storageKey = "test:v4:kdf:export";
+    const sls = secureLocalStorage({ storageKey });
+    await sls.setMasterPassword("pw-export");
+    await sls.setData({ k: "v" });
+
+    const bundle = await sls.exportData();
+    expect(JSON.parse(bundle).header.kdf).toMatchObject({ alg: "argon2id", time: SLS_CONSTANTS.ARGON2.ITERATIONS });
+
+    const other = secureLocalStorage({ storageKey: "test:v4:kdf:export:target" });
+    expect(await other.importData(bundle, "pw-export")).toBe("masterPassword");
+    await other.unlock("pw-export");
+    expect((await other.getData<{ k: string }>()).k).toBe("v");
+  });
+
+  it("rejects bundles whose descriptor is inconsistent with rounds", async () => {
+    const sls = secureLocalStorage({ storageKey: "test:v4:kdf:bad-export" });
+    await sls.setMasterPassword("pw-x");
+    const parsed = JSON.parse(await sls.exportData());
+    parsed.header.kdf.time = parsed.header.rounds + 1;
+
+    const other = secureLocalStorage({ storageKey: "test:v4:kdf:bad-export:target" });
+    await expect(other.importData(JSON.stringify(parsed), "pw-x")).rejects.toMatchObject({ name: "ImportError" });
+  });
+});
@@ -0,0 +1,89 @@
+import "../setup";
+import secureLocalStorage from "../../src";
+import { StorageService } from "../../src/storage/StorageService";
+import { EncryptionManager } from "../../src/crypto/EncryptionManager";
+import { base64ToBytes } from "../../src/utils/base64";
+import { deriveKekFromPassword, kdfFromOptions } from "../../src/crypto/KeyDerivation";
+import type { PersistedConfigV5 } from "../../src/types";
+
+const kdf = { time: 2, memKiB: 8 * 1024 };
+
+async function load(storageKey: string) {
+  const svc = new StorageService(storageKey);
+  return { svc, cfg: (await svc.get()) as PersistedConfigV5 };
+}
+
+describe("v5 header AAD", () => {
+  it("detects a changed mPw or ctx field in device mode", async () => {
+    const storageKey = "test:v5:aad:device";
+    await secureLocalStorage({ storageKey }).setData({ a: 1 });
+    const { svc, cfg } = await load(storageKey);
+    expect(cfg.header.v).toBe(5);
+
+    await svc.set({ ...cfg, header: { ...cfg.header, mPw: false } });
+    await expect(secureLocalStorage({ storageKey, strict: true }).whenReady()).rejects.toMatchObject({
+      name: "DeviceKeyMismatchError"
+    });
+  });
+
+  it("detects changed KDF parameters even when they stay consistent", async () => {
+    const storageKey = "test:v5:aad:kdf";
+    const sls = secureLocalStorage({ storageKey, kdf });
+    await sls.setMasterPassword("pw");
+    const { svc, cfg } = await load(storageKey);
+
+    // Same salt and KEK would still derive; only the recorded parameters move.
+    await svc.set({ ...cfg, header: { ...cfg.header, kdf: { ...cfg.header.kdf!, parallelism: 2 } as any } });
+    const reader = secureLocalStorage({ storageKey, kdf });
+    await expect(reader.unlock("pw")).rejects.toMatchObject({ name: "InvalidPasswordError" });
+  });
+
+  it("binds every field of new key slots", async () => {
+    const storageKey = "test:v5:aad:slot";
+    const sls = secureLocalStorage({ storageKey, kdf });
+    await sls.setMasterPassword("pw");
+    await sls.addPasswordSlot("second", "backup");
+    const { svc, cfg } = await load(storageKey);
+    const slot = cfg.header.slots![0]!;
+    expect(slot.v).toBe(5);
+
+    await svc.set({ ...cfg, header: { ...cfg.header, slots: [{ ...slot, label: "renamed" }] } });
+    const reader = secureLocalStorage({ storageKey, kdf });
+    await expect(reader.unlock("second")).rejects.toMatchObject({ name: "CorruptDataError" });
+    await reader.unlock("pw");
+    expect(reader.isLocked()).toBe(false);
+  });
+
+  it("v4 master store migrates on unlock and keeps its legacy key slots", async () => {
+    const storageKey = "test:v5:aad:migrate";
+    const te = new TextEncoder();
+    const enc = new EncryptionManager();
+    const descriptor = kdfFromOptions(kdf);
+    const dek = await enc.createDek();
+
+    const saltB64 = enc.generateSaltB64();
+    const kek = await deriveKekFromPassword("pw", base64ToBytes(saltB64), descriptor);
+    const { ivWrap, wrappedKey } = await enc.wrapDek(dek, kek, te.encode(`sls|wrap|v4|${storageKey}`));
+    const data = await enc.encryptData(dek, { n: 3 }, te.encode(`sls|data|v4|${storageKey}|${ivWrap}|${wrappedKey}`));
+
+    const slotSalt = enc.generateSaltB64();
+    const slotKek = await deriveKekFromPassword("slot-pw", base64ToBytes(slotSalt), descriptor);
+    const slotWrap = await enc.wrapDek(dek, slotKek, te.encode(`sls|slot|v3|${storageKey}|s1|password`));
+    const slot = { id: "s1", kind: "password", salt: slotSalt, rounds: 2, kdf: descriptor, iv: slotWrap.ivWrap, wrappedKey: slotWrap.wrappedKey };
+
+    await new StorageService(storageKey).set({
+      header: { v: 4, salt: saltB64, rounds: 2, iv: ivWrap, wrappedKey, ctx: "store", kdf: descriptor, slots: [slot] },
+      data
+    } as any);
+
+    const sls = secureLocalStorage({ storageKey, kdf });
+    await sls.unlock("pw");
+    const { cfg } = await load(storageKey);
+    expect(cfg.header.v).toBe(5);
+    expect(cfg.header.slots).toEqual([slot as any]);
+
+    const reader = secureLocalStorage({ storageKey, kdf });
+    await reader.unlock("slot-pw");
+    expect((await reader.getData<{ n: number }>()).n).toBe(3);
+  });
+});
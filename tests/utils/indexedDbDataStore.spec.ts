@@ -0,0 +1,133 @@
+import "./../setup";
+import { IndexedDbDataStore } from "../../src/storage/IndexedDbDataStore";
+import { StorageService } from "../../src/storage/StorageService";
+import { openDB } from "../../src/utils/idb";
+import { PersistenceError, StorageFullError } from "../../src/errors";
+import secureLocalStorage from "../../src";
+
+const dbCfg = { dbName: "SLS_DATA_TEST", storeName: "envelopes" };
+
+const cfg = {
+  header: { v: 3, salt: "", rounds: 1, iv: "AAECAwQFBgcICQoL", wrappedKey: "d2s=", ctx: "store" },
+  data: { iv: "AAECAwQFBgcICQoL", ciphertext: "Y3Q=" }
+} as unknown as any;
+
+async function readRecord(key: string): Promise<any> {
+  const db = await openDB(dbCfg.dbName, dbCfg.storeName);
+  try {
+    return await new Promise((resolve, reject) => {
+      const req = db.transaction(dbCfg.storeName, "readonly").objectStore(dbCfg.storeName).get(key);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+describe("IndexedDbDataStore", () => {
+  it("stores the header as-is and ciphertext as raw bytes", async () => {
+    const key = "test:idbdata:raw";
+    const store = new IndexedDbDataStore(key, dbCfg);
+    await store.set(cfg);
+
+    const rec = await readRecord(key);
+    expect(rec.header).toEqual(cfg.header);
+    expect(rec.data.ciphertext).toBeInstanceOf(Uint8Array);
+    expect(Array.from(rec.data.ciphertext as Uint8Array)).toEqual([0x63, 0x74]); // "ct"
+
+    expect(await store.get()).toEqual(cfg);
+    await store.clear();
+    expect(await store.get()).toBeNull();
+  });
+
+  it("round-trips empty data sections", async () => {
+    const store = new IndexedDbDataStore("test:idbdata:empty", dbCfg);
+    const empty = { ...cfg, data: { iv: "", ciphertext: "" } };
+    await store.set(empty);
+    expect(await store.get()).toEqual(empty);
+    await store.clear();
+  });
+
+  it("moves a legacy localStorage envelope into IndexedDB on first open", async () => {
+    const key = "test:idbdata:migrate";
+    const legacy = new StorageService(key);
+    await legacy.set(cfg);
+
+    const store = new IndexedDbDataStore(key, dbCfg, legacy);
+    expect(await store.get()).toEqual(cfg);
+    expect(localStorage.getItem(key)).toBeNull();
+    expect((await readRecord(key)).header).toEqual(cfg.header);
+    await store.clear();
+  });
+
+  it("maps quota failures to StorageFullError", async () => {
+    const store = new IndexedDbDataStore("test:idbdata:quota", dbCfg);
+    const originalOpen = indexedDB.open;
+    // @ts-ignore simulate quota exhaustion while opening the write transaction
+    indexedDB.open = () => { throw new DOMException("quota", "QuotaExceededError"); };
+    try {
+      await expect(store.set(cfg)).rejects.toBeInstanceOf(StorageFullError);
+    } finally {
+      indexedDB.open = originalOpen;
+    }
+  });
+
+  it("reports an unreadable database as PersistenceError instead of an empty store", async () => {
+    const key = "test:idbdata:readfail";
+    const legacy = new StorageService(key);
+    await legacy.set(cfg);
+    const store = new IndexedDbDataStore(key, dbCfg, legacy);
+    const originalOpen = indexedDB.open;
+    // @ts-ignore simulate a transient open failure
+    indexedDB.open = () => { throw new DOMException("busy", "UnknownError"); };
+    try {
+      await expect(store.get()).rejects.toBeInstanceOf(PersistenceError);
+    } finally {
+      indexedDB.open = originalOpen;
+    }
+    // The legacy copy was not migrated over a record that could not be read
+    expect(localStorage.getItem(key)).not.toBeNull();
+    await store.clear();
+  });
+
+  it("adds its object store to an existing database", async () => {
+    const shared = { dbName: "SLS_DATA_SHARED_TEST", storeName: "keys" };
+    (await openDB(shared.dbName, shared.storeName)).close();
+
+    const store = new IndexedDbDataStore("test:idbdata:shared", { dbName: shared.dbName, storeName: "envelopes" });
+    await store.set(cfg);
+    expect(await store.get()).toEqual(cfg);
+    const db = await openDB(shared.dbName, shared.storeName);
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(["envelopes", "keys"]);
+    db.close();
+  });
+});
+
+describe("SecureLocalStorage - dataStore: indexedDB", () => {
+  it("persists across instances without writing to localStorage", async () => {
+    const storageKey = "test:idbdata:sls";
+    const sls = secureLocalStorage({ storageKey, dataStore: "indexedDB", idbDataConfig: dbCfg });
+    await sls.setData({ a: 1 });
+    expect(localStorage.getItem(storageKey)).toBeNull();
+
+    const sls2 = secureLocalStorage({ storageKey, dataStore: "indexedDB", idbDataConfig: dbCfg });
+    const view = await sls2.getData<{ a: number }>();
+    expect(view.a).toBe(1);
+    view.clear();
+    await sls2.clear();
+  });
+
+  it("migrates an existing localStorage store on first open", async () => {
+    const storageKey = "test:idbdata:sls:migrate";
+    const before = secureLocalStorage({ storageKey });
+    await before.setData({ b: 2 });
+    expect(localStorage.getItem(storageKey)).not.toBeNull();
+
+    const after = secureLocalStorage({ storageKey, dataStore: "indexedDB", idbDataConfig: dbCfg });
+    const view = await after.getData<{ b: number }>();
+    expect(view.b).toBe(2);
+    view.clear();
+    expect(localStorage.getItem(storageKey)).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import "./../setup";
+import { StorageService } from "../../src/storage/StorageService";
+import {
+  LocalStorageAdapter,
+  MemoryStorageAdapter,
+  SessionStorageAdapter,
+  type StorageAdapter
+} from "../../src/storage/StorageAdapter";
+import { PersistenceError, StorageFullError } from "../../src/errors";
+import secureLocalStorage from "../../src";
+
+const cfg = {
+  header: { v: 2, salt: "", rounds: 1, iv: "aXY", wrappedKey: "d2s" },
+  data: { iv: "aXY", ciphertext: "Y3Q" }
+} as unknown as any;
+
+describe("StorageAdapter - built-ins", () => {
+  it("MemoryStorageAdapter round-trips through StorageService without touching localStorage", async () => {
+    const key = "test:adapter:memory";
+    const adapter = new MemoryStorageAdapter();
+    const svc = new StorageService(key, adapter);
+
+    await svc.set(cfg);
+    expect(await svc.get()).toEqual(cfg);
+    expect(localStorage.getItem(key)).toBeNull();
+
+    await svc.clear();
+    expect(adapter.getItem(key)).toBeNull();
+  });
+
+  it("LocalStorageAdapter resolves the global on every call", async () => {
+    const key = "test:adapter:local";
+    const svc = new StorageService(key, new LocalStorageAdapter());
+    await svc.set(cfg);
+    expect(JSON.parse(localStorage.getItem(key)!)).toEqual(cfg);
+    await svc.clear();
+    expect(localStorage.getItem(key)).toBeNull();
+  });
+
+  it("SessionStorageAdapter writes to sessionStorage", async () => {
+    const key = "test:adapter:session";
+    const original = (globalThis as any).sessionStorage;
+    const backing = new MemoryStorageAdapter();
+    (globalThis as any).sessionStorage = backing;
+
+    try {
+      const svc = new StorageService(key, new SessionStorageAdapter());
+      await svc.set(cfg);
+      expect(JSON.parse(backing.getItem(key)!)).toEqual(cfg);
+      expect(localStorage.getItem(key)).toBeNull();
+    } finally {
+      (globalThis as any).sessionStorage = original;
+    }
+  });
+});
+
+describe("StorageAdapter - error mapping applies to custom adapters", () => {
+  it("wraps adapter quota errors as StorageFullError", async () => {
+    const adapter: StorageAdapter = {
+      getItem: () => null,
+      setItem: () => { throw new Error("QuotaExceededError"); },
+      removeItem: () => {}
+    };
+    const svc = new StorageService("test:adapter:quota", adapter);
+    await expect(svc.set(cfg)).rejects.toThrow(StorageFullError);
+  });
+
+  it("fails the integrity check when the adapter does not read back what was written", async () => {
+    const adapter: StorageAdapter = {
+      getItem: () => "__tampered__",
+      setItem: () => {},
+      removeItem: () => {}
+    };
+    const svc = new StorageService("test:adapter:integrity", adapter);
+    await expect(svc.set(cfg)).rejects.toThrow(PersistenceError);
+  });
+});
+
+describe("SecureLocalStorage - storage option", () => {
+  it("persists through the configured adapter", async () => {
+    const storageKey = "test:adapter:sls";
+    const adapter = new MemoryStorageAdapter();
+    const sls = secureLocalStorage({ storageKey, storage: adapter });
+    await sls.setData({ a: 1 });
+
+    expect(localStorage.getItem(storageKey)).toBeNull();
+    expect(adapter.getItem(storageKey)).not.toBeNull();
+
+    const sls2 = secureLocalStorage({ storageKey, storage: adapter });
+    const view = await sls2.getData<{ a: number }>();
+    expect(view.a).toBe(1);
+    view.clear();
+  });
+});
+
+describe("StorageAdapter - asynchronous backends", () => {
+  class AsyncMemoryAdapter implements StorageAdapter {
+    readonly inner = new MemoryStorageAdapter();
+    async getItem(key: string) { await Promise.resolve(); return this.inner.getItem(key); }
+    async setItem(key: string, value: string) { await Promise.resolve(); this.inner.setItem(key, value); }
+    async removeItem(key: string) { await Promise.resolve(); this.inner.removeItem(key); }
+  }
+
+  it("runs the full state machine on a Promise-based adapter", async () => {
+    const storageKey = "test:adapter:async:sls";
+    const adapter = new AsyncMemoryAdapter();
+    const sls = secureLocalStorage({ storageKey, storage: adapter });
+    await sls.setData({ a: 1 });
+    await sls.setMasterPassword("pw-async");
+    sls.lock();
+
+    const sls2 = secureLocalStorage({ storageKey, storage: adapter });
+    await sls2.unlock("pw-async");
+    const view = await sls2.getData<{ a: number }>();
+    expect(view.a).toBe(1);
+    view.clear();
+
+    await sls2.clear();
+    expect(sls2.isUsingMasterPassword()).toBe(false);
+  });
+
+  it("surfaces rejected quota writes as StorageFullError", async () => {
+    const adapter = new AsyncMemoryAdapter();
+    const sls = secureLocalStorage({ storageKey: "test:adapter:async:quota", storage: adapter });
+    await sls.setData({ v: 1 });
+
+    adapter.setItem = async () => { throw new DOMException("full", "QuotaExceededError"); };
+    await expect(sls.setData({ v: 2 })).rejects.toBeInstanceOf(StorageFullError);
+  });
+
+  it("surfaces other rejected writes as PersistenceError", async () => {
+    const adapter = new AsyncMemoryAdapter();
+    const sls = secureLocalStorage({ storageKey: "test:adapter:async:fail", storage: adapter });
+    await sls.setData({ v: 1 });
+
+    adapter.setItem = async () => { throw new Error("bridge disconnected"); };
+    await expect(sls.setData({ v: 2 })).rejects.toBeInstanceOf(PersistenceError);
+  });
+});
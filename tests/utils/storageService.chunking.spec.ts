@@ -0,0 +1,104 @@
+import "./../setup";
+import { StorageService } from "../../src/storage/StorageService";
+import { MemoryStorageAdapter } from "../../src/storage/StorageAdapter";
+import { ValidationError } from "../../src/errors";
+import secureLocalStorage from "../../src";
+
+function makeCfg(ciphertext: string) {
+  return {
+    header: { v: 3, salt: "", rounds: 1, iv: "aXY", wrappedKey: "d2s", ctx: "store" },
+    data: { iv: "aXY", ciphertext }
+  } as unknown as any;
+}
+
+describe("StorageService - chunking", () => {
+  it("splits large payloads into key#n entries behind a manifest", async () => {
+    const key = "test:chunk:split";
+    const adapter = new MemoryStorageAdapter();
+    const svc = new StorageService(key, adapter, { chunkSize: 64 });
+    const cfg = makeCfg("A".repeat(300));
+    await svc.set(cfg);
+
+    const manifest = JSON.parse(adapter.getItem(key)!);
+    expect(manifest.slsChunks).toBe(1);
+    expect(manifest.count).toBe(Math.ceil(JSON.stringify(cfg).length / 64));
+    for (let i = 0; i < manifest.count; i++) {
+      expect(adapter.getItem(`${key}#${i}`)!.length).toBeLessThanOrEqual(64);
+    }
+    expect(await svc.get()).toEqual(cfg);
+  });
+
+  it("keeps small payloads in a single entry", async () => {
+    const key = "test:chunk:small";
+    const adapter = new MemoryStorageAdapter();
+    const svc = new StorageService(key, adapter, { chunkSize: 10_000 });
+    const cfg = makeCfg("Y3Q");
+    await svc.set(cfg);
+    expect(JSON.parse(adapter.getItem(key)!)).toEqual(cfg);
+    expect(adapter.getItem(`${key}#0`)).toBeNull();
+  });
+
+  it("removes stale chunks when the payload shrinks", async () => {
+    const key = "test:chunk:shrink";
+    const adapter = new MemoryStorageAdapter();
+    const svc = new StorageService(key, adapter, { chunkSize: 50 });
+    await svc.set(makeCfg("B".repeat(400)));
+    const before = JSON.parse(adapter.getItem(key)!).count as number;
+
+    await svc.set(makeCfg("C".repeat(100)));
+    const after = JSON.parse(adapter.getItem(key)!).count as number;
+    expect(after).toBeLessThan(before);
+    for (let i = after; i < before; i++) expect(adapter.getItem(`${key}#${i}`)).toBeNull();
+
+    // Writing without chunking drops every chunk of the previous manifest
+    const unchunked = new StorageService(key, adapter);
+    await unchunked.set(makeCfg("D"));
+    for (let i = 0; i < before; i++) expect(adapter.getItem(`${key}#${i}`)).toBeNull();
+    expect(await svc.get()).toEqual(makeCfg("D"));
+  });
+
+  it("returns null when a chunk is missing or tampered with", async () => {
+    const key = "test:chunk:tamper";
+    const adapter = new MemoryStorageAdapter();
+    const svc = new StorageService(key, adapter, { chunkSize: 40 });
+    await svc.set(makeCfg("E".repeat(200)));
+
+    const last = JSON.parse(adapter.getItem(key)!).count - 1;
+    const original = adapter.getItem(`${key}#${last}`)!;
+    adapter.setItem(`${key}#${last}`, original.replace("E", "F"));
+    expect(await svc.get()).toBeNull();
+
+    adapter.removeItem(`${key}#${last}`);
+    expect(await svc.get()).toBeNull();
+  });
+
+  it("clear() removes the manifest and all chunks", async () => {
+    const key = "test:chunk:clear";
+    const adapter = new MemoryStorageAdapter();
+    const svc = new StorageService(key, adapter, { chunkSize: 40 });
+    await svc.set(makeCfg("G".repeat(200)));
+    await svc.clear();
+    expect(adapter.getItem(key)).toBeNull();
+    expect(adapter.getItem(`${key}#0`)).toBeNull();
+  });
+
+  it("rejects invalid chunk sizes", () => {
+    expect(() => new StorageService("k", new MemoryStorageAdapter(), { chunkSize: 0 })).toThrow(ValidationError);
+    expect(() => new StorageService("k", new MemoryStorageAdapter(), { chunkSize: 1.5 })).toThrow(ValidationError);
+  });
+});
+
+describe("SecureLocalStorage - chunkSize option", () => {
+  it("round-trips data through chunked storage", async () => {
+    const storageKey = "test:chunk:sls";
+    const adapter = new MemoryStorageAdapter();
+    const sls = secureLocalStorage({ storageKey, storage: adapter, chunkSize: 128 });
+    await sls.setData({ text: "x".repeat(1000) });
+    expect(JSON.parse(adapter.getItem(storageKey)!).slsChunks).toBe(1);
+
+    const sls2 = secureLocalStorage({ storageKey, storage: adapter });
+    const view = await sls2.getData<{ text: string }>();
+    expect(view.text.length).toBe(1000);
+    view.clear();
+  });
+});
@@ -0,0 +1,93 @@
+import "./../setup";
+import { StorageService } from "../../src/storage/StorageService";
+import { MemoryStorageAdapter } from "../../src/storage/StorageAdapter";
+import { StorageFullError } from "../../src/errors";
+
+function makeCfg(ciphertext: string) {
+  return {
+    header: { v: 3, salt: "", rounds: 1, iv: "aXY", wrappedKey: "d2s", ctx: "store" },
+    data: { iv: "aXY", ciphertext }
+  } as unknown as any;
+}
+const always = () => true;
+
+describe("StorageService - write-ahead journal", () => {
+  it("removes the journal after a successful write", async () => {
+    const key = "test:journal:ok";
+    const adapter = new MemoryStorageAdapter();
+    const svc = new StorageService(key, adapter, { journal: true });
+    await svc.set(makeCfg("AAA"));
+
+    expect(await svc.get()).toEqual(makeCfg("AAA"));
+    expect(adapter.getItem(`${key}#journal`)).toBeNull();
+    expect(await svc.recover(always)).toBe("none");
+  });
+
+  it("rolls back and keeps the previous config when the swap fails on an intact entry", async () => {
+    const key = "test:journal:rollback-on-fail";
+    const adapter = new MemoryStorageAdapter();
+    const svc = new StorageService(key, adapter, { journal: true });
+    await svc.set(makeCfg("OLD"));
+
+    const realSet = adapter.setItem.bind(adapter);
+    adapter.setItem = (k: string, v: string) => {
+      if (k === key) throw new Error("QuotaExceededError");
+      realSet(k, v);
+    };
+
+    await expect(svc.set(makeCfg("NEW"))).rejects.toBeInstanceOf(StorageFullError);
+    expect(adapter.getItem(`${key}#journal`)).toBeNull();
+    expect(await svc.get()).toEqual(makeCfg("OLD"));
+  });
+
+  it("keeps the journal when the swap damaged the primary entry and rolls it forward on recover()", async () => {
+    const key = "test:journal:forward";
+    const adapter = new MemoryStorageAdapter();
+    const svc = new StorageService(key, adapter, { journal: true });
+    await svc.set(makeCfg("OLD"));
+
+    // Simulate a torn write: half the payload lands, then the backend dies.
+    const realSet = adapter.setItem.bind(adapter);
+    adapter.setItem = (k: string, v: string) => {
+      if (k === key) { realSet(k, v.slice(0, 10)); throw new Error("tab crashed"); }
+      realSet(k, v);
+    };
+    await expect(svc.set(makeCfg("NEW"))).rejects.toThrow();
+    adapter.setItem = realSet;
+
+    expect(adapter.getItem(`${key}#journal`)).not.toBeNull();
+    expect(await svc.recover(always)).toBe("rolled-forward");
+    expect(await svc.get()).toEqual(makeCfg("NEW"));
+    expect(adapter.getItem(`${key}#journal`)).toBeNull();
+  });
+
+  it("discards an unparsable or invalid journal", async () => {
+    const key = "test:journal:discard";
+    const adapter = new MemoryStorageAdapter();
+    const svc = new StorageService(key, adapter, { journal: true });
+    await svc.set(makeCfg("OLD"));
+
+    adapter.setItem(`${key}#journal`, "{\"header\":");
+    expect(await svc.recover(always)).toBe("rolled-back");
+    expect(await svc.get()).toEqual(makeCfg("OLD"));
+
+    adapter.setItem(`${key}#journal`, JSON.stringify(makeCfg("NEW")));
+    expect(await svc.recover(() => false)).toBe("rolled-back");
+    expect(await svc.get()).toEqual(makeCfg("OLD"));
+    expect(adapter.getItem(`${key}#journal`)).toBeNull();
+  });
+
+  it("discards a chunked journal whose manifest does not verify", async () => {
+    const key = "test:journal:chunked";
+    const adapter = new MemoryStorageAdapter();
+    const svc = new StorageService(key, adapter, { journal: true, chunkSize: 40 });
+    await svc.set(makeCfg("OLD"));
+
+    // A chunked write that was interrupted after the manifest but before all chunks landed
+    adapter.setItem(`${key}#journal`, JSON.stringify({ slsChunks: 1, count: 3, length: 120, sha256: "x" }));
+    adapter.setItem(`${key}#journal#0`, "partial");
+    expect(await svc.recover(always)).toBe("rolled-back");
+    expect(await svc.get()).toEqual(makeCfg("OLD"));
+    expect(adapter.getItem(`${key}#journal#0`)).toBeNull();
+  });
+});
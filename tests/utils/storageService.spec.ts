@@ -3,15 +3,15 @@ import { StorageService } from "../../src/storage/StorageService";
 import { PersistenceError, StorageFullError } from "../../src/errors";
 
 describe("StorageService", () => {
-  it("get() returns null on invalid JSON", () => {
+  it("get() returns null on invalid JSON", async () => {
     const key = "test:storage:invalid";
     localStorage.setItem(key, "{not-json");
     const s = new StorageService(key);
-    expect(s.get()).toBeNull();
+    expect(await s.get()).toBeNull();
     localStorage.removeItem(key);
   });
 
-  it("set() wraps quota errors in StorageFullError with size estimate", () => {
+  it("set() wraps quota errors in StorageFullError with size estimate", async () => {
     const key = "test:storage:quota";
     const s = new StorageService(key);
     const cfg = {
@@ -24,7 +24,7 @@ describe("StorageService", () => {
     localStorage.setItem = () => { throw new Error("QuotaExceededError"); };
 
     try {
-      expect(() => s.set(cfg as any)).toThrow(StorageFullError);
+      await expect(s.set(cfg as any)).rejects.toThrow(StorageFullError);
     } finally {
       // @ts-ignore restore
       localStorage.setItem = originalSetItem;
@@ -34,7 +34,7 @@ describe("StorageService", () => {
 });
 
 describe("StorageService - quota detection variants", () => {
-  it("wraps DOMException(name=QuotaExceededError) as StorageFullError", () => {
+  it("wraps DOMException(name=QuotaExceededError) as StorageFullError", async () => {
     const key = "test:storage:quota:domex";
     const s = new StorageService(key);
     const cfg = {
@@ -48,14 +48,14 @@ describe("StorageService - quota detection variants", () => {
     localStorage.setItem = () => { throw new QuotaErr(); };
 
     try {
-      expect(() => s.set(cfg as any)).toThrow(StorageFullError);
+      await expect(s.set(cfg as any)).rejects.toThrow(StorageFullError);
     } finally {
       // @ts-ignore restore
       localStorage.setItem = originalSetItem;
       localStorage.removeItem(key);
     }
   });
-  it("wraps quota exceeded when error has numeric code 22", () => {
+  it("wraps quota exceeded when error has numeric code 22", async () => {
     const key = "test:storage:quota:code22";
     const s = new StorageService(key);
     const cfg = {
@@ -73,14 +73,14 @@ describe("StorageService - quota detection variants", () => {
     };
 
     try {
-      expect(() => s.set(cfg as any)).toThrow(StorageFullError);
+      await expect(s.set(cfg as any)).rejects.toThrow(StorageFullError);
     } finally {
       // @ts-ignore
       localStorage.setItem = original;
       localStorage.removeItem(key);
     }
   });
-  it("wraps DOMException(name=NS_ERROR_DOM_QUOTA_REACHED) as StorageFullError", () => {
+  it("wraps DOMException(name=NS_ERROR_DOM_QUOTA_REACHED) as StorageFullError", async () => {
     const key = "test:storage:quota:ns_error";
     const s = new StorageService(key);
     const cfg = {
@@ -94,7 +94,7 @@ describe("StorageService - quota detection variants", () => {
     localStorage.setItem = () => { throw new NSQuotaErr(); };
 
     try {
-      expect(() => s.set(cfg as any)).toThrow(StorageFullError);
+      await expect(s.set(cfg as any)).rejects.toThrow(StorageFullError);
     } finally {
       // @ts-ignore restore
       localStorage.setItem = originalSetItem;
@@ -102,7 +102,7 @@ describe("StorageService - quota detection variants", () => {
     }
   });
 
-  it("wraps generic 'quota exceeded' messages as StorageFullError", () => {
+  it("wraps generic 'quota exceeded' messages as StorageFullError", async () => {
     const key = "test:storage:quota:message";
     const s = new StorageService(key);
     const cfg = {
@@ -115,7 +115,7 @@ describe("StorageService - quota detection variants", () => {
     localStorage.setItem = () => { throw new Error("The quota has been exceeded."); };
 
     try {
-      expect(() => s.set(cfg as any)).toThrow(StorageFullError);
+      await expect(s.set(cfg as any)).rejects.toThrow(StorageFullError);
     } finally {
       // @ts-ignore restore
       localStorage.setItem = originalSetItem;
@@ -125,7 +125,7 @@ describe("StorageService - quota detection variants", () => {
 });
 
 describe("StorageService - integrity & quota variants", () => {
-  it("throws when post-write readback differs (integrity check)", () => {
+  it("throws when post-write readback differs (integrity check)", async () => {
     const key = "test:storage:integrity";
     const svc = new StorageService(key);
     const cfg = {
@@ -143,7 +143,7 @@ describe("StorageService - integrity & quota variants", () => {
     localStorage.getItem = (_k: string) => "__tampered__";
 
     try {
-      expect(() => svc.set(cfg)).toThrow(PersistenceError);
+      await expect(svc.set(cfg)).rejects.toThrow(PersistenceError);
     } finally {
       // @ts-ignore
       localStorage.setItem = originalSetItem;
@@ -153,7 +153,7 @@ describe("StorageService - integrity & quota variants", () => {
     }
   });
 
-  it("quota detection considers Firefox DOMException code 1014", () => {
+  it("quota detection considers Firefox DOMException code 1014", async () => {
     const key = "test:storage:quota:1014";
     const svc = new StorageService(key);
     const cfg = {
@@ -171,7 +171,7 @@ describe("StorageService - integrity & quota variants", () => {
     };
 
     try {
-      expect(() => svc.set(cfg)).toThrow(StorageFullError);
+      await expect(svc.set(cfg)).rejects.toThrow(StorageFullError);
     } finally {
       // @ts-ignore
       localStorage.setItem = original;